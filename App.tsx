@@ -1,10 +1,39 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { AudioEngine } from './services/audioEngine';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { AudioEngine, BusSettings, MixerBusId, PatternModel } from './services/audioEngine';
 import { analyzeImageForSound } from './services/geminiService';
+import { encodeWav, WavBitDepth } from './services/wavEncoder';
+import { encodeMidiFile } from './services/midiFile';
+import { downloadBlob } from './services/download';
+import { randomSeed } from './services/random';
+import { clampBpm } from './services/tempo';
+import { MidiOutput } from './services/midiOutput';
+import { MidiInput } from './services/midiInput';
+import { ClockSync } from './services/clockSync';
+import { SampleKitLibrary } from './services/sampleKits';
+import { GrooveTemplate } from './services/groove';
+import { meterFor, StepPosition } from './services/meter';
+import { Arrangement } from './services/arrangement';
+import { SidechainSettings } from './services/sidechain';
+import { StereoSettings } from './services/stereo';
+import { AutomationMode } from './services/automation';
+import { LoudnessReading, SILENT_READING } from './services/masterSection';
+import { readTuningFiles, Tuning } from './services/tuning';
+import { createScene, createThumbnail, hashDataUrl, parseScene, SceneImage, serializeScene } from './services/scene';
 import HandTracker from './components/HandTracker';
 import Visualizer from './components/Visualizer';
 import AnalysisHUD from './components/AnalysisHUD';
 import RhythmScope from './components/RhythmScope';
+import MidiOutputPanel from './components/MidiOutputPanel';
+import MidiInputPanel from './components/MidiInputPanel';
+import ClockSyncPanel from './components/ClockSyncPanel';
+import ParameterPanel from './components/ParameterPanel';
+import MixerStrip from './components/MixerStrip';
+import StepSequencer from './components/StepSequencer';
+import SampleKitPanel from './components/SampleKitPanel';
+import GroovePanel from './components/GroovePanel';
+import ArrangementTimeline from './components/ArrangementTimeline';
+import AutomationControls from './components/AutomationControls';
+import LoudnessMeter from './components/LoudnessMeter';
 import { AppState, SonicParameters, HandGestures } from './types';
 
 const App: React.FC = () => {
@@ -13,12 +42,73 @@ const App: React.FC = () => {
   const [gestures, setGestures] = useState<HandGestures>({ x: 0.5, y: 0.5, isPinching: false, isFist: false, isPalmOpen: true, isVisible: false });
   const [errorMsg, setErrorMsg] = useState('');
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [currentStep, setCurrentStep] = useState<number>(0);
+  const [stepPosition, setStepPosition] = useState<StepPosition>({ step: 0, stepsPerBar: 16, bar: 0, songBar: 0, tick: 0 });
   const [extractedColors, setExtractedColors] = useState<string[]>([]);
   const [isCameraEnabled, setIsCameraEnabled] = useState<boolean>(false);
+  const [exportBars, setExportBars] = useState<number>(0); // 0 = the whole track (one pass through the form when looping)
+  const [exportBitDepth, setExportBitDepth] = useState<WavBitDepth>(16);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [isMidiPanelOpen, setIsMidiPanelOpen] = useState<boolean>(false);
+  const [isSyncPanelOpen, setIsSyncPanelOpen] = useState<boolean>(false);
+  const [isParamPanelOpen, setIsParamPanelOpen] = useState<boolean>(false);
+  const [mixerState, setMixerState] = useState<Record<MixerBusId, BusSettings> | null>(null);
+  const [sidechain, setSidechain] = useState<SidechainSettings | null>(null);
+  const [stereo, setStereo] = useState<StereoSettings | null>(null);
+  const [pattern, setPattern] = useState<PatternModel | null>(null);
+  const [isSequencerOpen, setIsSequencerOpen] = useState<boolean>(false);
+  const [presetColors, setPresetColors] = useState<string[] | undefined>(undefined);
+  const [isKitPanelOpen, setIsKitPanelOpen] = useState<boolean>(false);
+  const [groove, setGroove] = useState<GrooveTemplate | null>(null);
+  const [isGroovePanelOpen, setIsGroovePanelOpen] = useState<boolean>(false);
+  const [arrangement, setArrangement] = useState<Arrangement | null>(null);
+  const [isArrangementOn, setIsArrangementOn] = useState<boolean>(true); // false = loop the form forever
+  const [automationMode, setAutomationMode] = useState<AutomationMode>('off');
+  const [automationPoints, setAutomationPoints] = useState<number>(0);
+  const [loudness, setLoudness] = useState<LoudnessReading>(SILENT_READING);
+  const [isAutoGainOn, setIsAutoGainOn] = useState<boolean>(false);
+  const [customTuning, setCustomTuning] = useState<Tuning | null>(null); // Imported Scala tuning, kept across images
   
   const audioEngineRef = useRef<AudioEngine | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const midiOutputRef = useRef<MidiOutput>(new MidiOutput());
+  const clockSyncRef = useRef<ClockSync>(new ClockSync());
+  const midiInputRef = useRef<MidiInput>(new MidiInput());
+  const sampleKitsRef = useRef<SampleKitLibrary>(new SampleKitLibrary());
+  const sceneImageRef = useRef<SceneImage | null>(null); // Set when the image came from a loaded scene
+  // Mirrors of the state setupEngine applies, since it also runs from the delayed post-analysis callback
+  const isArrangementOnRef = useRef<boolean>(true);
+  const isAutoGainOnRef = useRef<boolean>(false);
+  const customTuningRef = useRef<Tuning | null>(null);
+
+  // Builds the engine for a set of params and syncs UI state from it
+  const setupEngine = (params: SonicParameters): AudioEngine => {
+      audioEngineRef.current?.dispose();
+      const engine = new AudioEngine(params);
+      engine.setCustomTuning(customTuningRef.current);
+      engine.setOnStepCallback(setStepPosition);
+      engine.setOnEndedCallback(() => { // The track played out
+          setAppState(AppState.READY);
+          setAutomationPoints(engine.getAutomation().length);
+      });
+      engine.setArrangementEnabled(isArrangementOnRef.current);
+      engine.setOnLoudnessCallback(setLoudness);
+      engine.setAutoGainEnabled(isAutoGainOnRef.current);
+      engine.init(); // Pre-init context
+      engine.setSampleKits(sampleKitsRef.current);
+      midiOutputRef.current.attach(engine);
+      clockSyncRef.current.attach(engine);
+      audioEngineRef.current = engine;
+      analyserRef.current = engine.getAnalyser();
+      setMixerState(engine.getMixerState());
+      setSidechain(engine.getSidechain());
+      setStereo(engine.getStereo());
+      setPattern(engine.getPattern());
+      setGroove(engine.getGroove());
+      setArrangement(engine.getArrangement());
+      setAutomationMode(engine.getAutomationMode());
+      setAutomationPoints(0);
+      return engine;
+  };
 
   // Handle File Upload
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -34,6 +124,8 @@ const App: React.FC = () => {
     handleStop();
     setAppState(AppState.ANALYZING);
     setExtractedColors([]);
+    setPresetColors(undefined);
+    sceneImageRef.current = null;
     
     const reader = new FileReader();
     reader.onload = async (e) => {
@@ -44,18 +136,15 @@ const App: React.FC = () => {
         const base64Data = base64Raw.split(',')[1];
         
         try {
-            const params = await analyzeImageForSound(base64Data, file.type);
+            const analysis = await analyzeImageForSound(base64Data, file.type);
+            const params: SonicParameters = { ...analysis, bpm: clampBpm(analysis.bpm), seed: analysis.seed ?? randomSeed() };
             
             // Artificial delay to let the user enjoy the scanning animation
             setTimeout(() => {
                 setSonicParams(params);
                 
                 // Initialize Audio Engine with params
-                const engine = new AudioEngine(params);
-                engine.setOnStepCallback((step) => setCurrentStep(step));
-                engine.init(); // Pre-init context
-                audioEngineRef.current = engine;
-                analyserRef.current = engine.getAnalyser();
+                setupEngine(params);
 
                 setAppState(AppState.READY);
             }, 3000);
@@ -80,6 +169,7 @@ const App: React.FC = () => {
     if (audioEngineRef.current) {
         audioEngineRef.current.stop();
         setAppState(AppState.READY);
+        setAutomationPoints(audioEngineRef.current.getAutomation().length);
     }
   };
 
@@ -89,6 +179,192 @@ const App: React.FC = () => {
     setImagePreview(null);
     setAppState(AppState.IDLE);
     setExtractedColors([]);
+    setMixerState(null);
+    setPattern(null);
+    setPresetColors(undefined);
+    sceneImageRef.current = null;
+  };
+
+  const handleSaveScene = async () => {
+      const engine = audioEngineRef.current;
+      if (!engine || !sonicParams) return;
+
+      try {
+          let image = sceneImageRef.current;
+          if (!image && imagePreview) {
+              image = { thumbnail: await createThumbnail(imagePreview), hash: await hashDataUrl(imagePreview) };
+          }
+          const scene = createScene({
+              params: engine.getParams(),
+              composition: engine.getComposition(),
+              mixer: engine.getMixerState(),
+              groove: engine.getGroove(),
+              sidechain: engine.getSidechain(),
+              stereo: engine.getStereo(),
+              automation: engine.getAutomation(),
+              tuning: engine.getCustomTuning(),
+              arrangementEnabled: engine.isArrangementEnabled(),
+              image,
+              colors: extractedColors
+          });
+          downloadBlob(serializeScene(scene), `synesthesia-${sonicParams.style}-${engine.getSeed()}.scene.json`);
+      } catch (err) {
+          console.error("Scene export failed:", err);
+      }
+  };
+
+  const handleLoadScene = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // Allow reloading the same file
+      if (!file) return;
+
+      try {
+          const scene = parseScene(await file.text());
+          handleStop();
+
+          customTuningRef.current = scene.tuning;
+          isArrangementOnRef.current = scene.arrangementEnabled;
+          const engine = setupEngine(scene.params);
+          engine.loadComposition(scene.composition);
+          Object.entries(scene.mixer ?? {}).forEach(([bus, settings]) => {
+              engine.setBusSettings(bus as MixerBusId, settings);
+          });
+          engine.setGroove(scene.groove);
+          engine.setSidechain(scene.sidechain);
+          engine.setStereo(scene.stereo);
+          engine.setAutomation(scene.automation);
+
+          sceneImageRef.current = scene.image;
+          setSonicParams(engine.getParams());
+          setMixerState(engine.getMixerState());
+          setPattern(engine.getPattern());
+          setGroove(engine.getGroove());
+          setSidechain(engine.getSidechain());
+          setStereo(engine.getStereo());
+          setAutomationPoints(scene.automation.length);
+          setCustomTuning(scene.tuning);
+          setIsArrangementOn(scene.arrangementEnabled);
+          setImagePreview(scene.image?.thumbnail ?? null);
+          setPresetColors(scene.colors);
+          setExtractedColors(scene.colors);
+          setAppState(AppState.READY);
+      } catch (err) {
+          console.error(err);
+          setAppState(AppState.ERROR);
+          setErrorMsg(err instanceof Error ? err.message : "Failed to load scene.");
+      }
+  };
+
+  const handleExportWav = async () => {
+      const engine = audioEngineRef.current;
+      if (!engine || !sonicParams || isRendering) return;
+
+      setIsRendering(true);
+      try {
+          const buffer = await engine.renderOffline({ bars: exportBars || undefined });
+          const blob = encodeWav(buffer, exportBitDepth);
+          downloadBlob(blob, `synesthesia-${sonicParams.style}-${Math.round(sonicParams.bpm)}bpm.wav`);
+      } catch (err) {
+          console.error("Offline render failed:", err);
+      } finally {
+          setIsRendering(false);
+      }
+  };
+
+  const handleExportMidi = () => {
+      const engine = audioEngineRef.current;
+      if (!engine || !sonicParams) return;
+
+      const events = engine.collectNoteEvents(exportBars || undefined);
+      const blob = encodeMidiFile(events, sonicParams.bpm, `Synesthesia ${sonicParams.style}`, engine.getMeter());
+      downloadBlob(blob, `synesthesia-${sonicParams.style}-${Math.round(sonicParams.bpm)}bpm.mid`);
+  };
+
+  const handleParamsChange = (update: Partial<SonicParameters>) => {
+      if (!sonicParams) return;
+      const engine = audioEngineRef.current;
+      if (engine) {
+          engine.setParams(update);
+          // Style, complexity and meter re-seed the patterns and arrangement; style also resets groove and sidechain
+          setPattern(engine.getPattern());
+          setGroove(engine.getGroove());
+          setSidechain(engine.getSidechain());
+          setArrangement(engine.getArrangement());
+      }
+      setSonicParams({ ...sonicParams, ...update });
+  };
+
+  const handleImportTuning = async (files: File[]) => {
+      const tuning = await readTuningFiles(files);
+      customTuningRef.current = tuning;
+      setCustomTuning(tuning);
+      audioEngineRef.current?.setCustomTuning(tuning);
+      handleParamsChange({ scale: 'custom' });
+  };
+
+  const handleBusChange = (bus: MixerBusId, update: Partial<BusSettings>) => {
+      const engine = audioEngineRef.current;
+      if (!engine) return;
+      engine.setBusSettings(bus, update);
+      setMixerState(engine.getMixerState());
+  };
+
+  const handleSidechainChange = (update: Partial<SidechainSettings>) => {
+      const engine = audioEngineRef.current;
+      if (!engine) return;
+      engine.setSidechain(update);
+      setSidechain(engine.getSidechain());
+  };
+
+  const handleStereoChange = (update: Partial<StereoSettings>) => {
+      const engine = audioEngineRef.current;
+      if (!engine) return;
+      engine.setStereo(update);
+      setStereo(engine.getStereo());
+  };
+
+  const handleAutoGainToggle = (enabled: boolean) => {
+      audioEngineRef.current?.setAutoGainEnabled(enabled);
+      isAutoGainOnRef.current = enabled;
+      setIsAutoGainOn(enabled);
+  };
+
+  const handleAutomationModeChange = (mode: AutomationMode) => {
+      const engine = audioEngineRef.current;
+      if (!engine) return;
+      engine.setAutomationMode(mode);
+      setAutomationMode(mode);
+      setAutomationPoints(engine.getAutomation().length);
+  };
+
+  const handleAutomationClear = () => {
+      audioEngineRef.current?.setAutomation([]);
+      setAutomationPoints(0);
+  };
+
+  const handlePatternChange = (nextPattern: PatternModel) => {
+      audioEngineRef.current?.setPattern(nextPattern);
+      setPattern(nextPattern);
+  };
+
+  const handleGrooveChange = (nextGroove: GrooveTemplate) => {
+      audioEngineRef.current?.setGroove(nextGroove);
+      setGroove(nextGroove);
+  };
+
+  const handleSeedChange = (value: string) => {
+      const seed = parseInt(value, 10);
+      if (!sonicParams || !audioEngineRef.current || Number.isNaN(seed) || seed === sonicParams.seed) return;
+      audioEngineRef.current.reseed(seed);
+      setSonicParams({ ...sonicParams, seed: audioEngineRef.current.getSeed() });
+      setPattern(audioEngineRef.current.getPattern());
+      setArrangement(audioEngineRef.current.getArrangement());
+  };
+
+  const handleArrangementToggle = (enabled: boolean) => {
+      audioEngineRef.current?.setArrangementEnabled(enabled);
+      isArrangementOnRef.current = enabled;
+      setIsArrangementOn(enabled);
   };
 
   const toggleCamera = () => {
@@ -111,6 +387,28 @@ const App: React.FC = () => {
       }
   }, [appState]);
 
+  // Restore saved sample kits
+  useEffect(() => {
+      sampleKitsRef.current.init().catch(err => console.error("Sample kits unavailable:", err));
+  }, []);
+
+  // MIDI controllers drive the same gesture path as the camera
+  useEffect(() => {
+      midiInputRef.current.setOnGestures(onGesturesDetected);
+      return () => midiInputRef.current.setOnGestures(null);
+  }, [onGesturesDetected]);
+
+  // The wavetable engine takes its timbre from the image palette
+  useEffect(() => {
+      audioEngineRef.current?.setWavetableColors(extractedColors);
+  }, [extractedColors, sonicParams]);
+
+  // A followed master sets the tempo
+  useEffect(() => {
+      clockSyncRef.current.setOnTempo(bpm => setSonicParams(prev => prev ? { ...prev, bpm } : prev));
+      return () => clockSyncRef.current.setOnTempo(null);
+  }, []);
+
   return (
     <div className="relative h-screen w-full bg-black text-white selection:bg-cyan-900 selection:text-cyan-100 flex flex-col overflow-hidden">
       
@@ -159,8 +457,9 @@ const App: React.FC = () => {
                         isAnalyzing={appState === AppState.ANALYZING} 
                         isPlaying={appState === AppState.PLAYING}
                         sonicParams={sonicParams}
-                        currentStep={currentStep}
+                        position={stepPosition}
                         onColorsDetected={setExtractedColors}
+                        presetColors={presetColors}
                     />
                     
                     {/* Floating Controls Overlay */}
@@ -225,6 +524,20 @@ const App: React.FC = () => {
                 color={sonicParams ? (sonicParams.darkness > 0.5 ? '#ff3366' : '#00ffff') : '#444'}
             />
 
+            {mixerState && sidechain && stereo && sonicParams && (
+                <MixerStrip mixer={mixerState} onChange={handleBusChange} sidechain={sidechain} onSidechainChange={handleSidechainChange} stereo={stereo} onStereoChange={handleStereoChange} />
+            )}
+
+            {arrangement && sonicParams && (
+                <ArrangementTimeline
+                    arrangement={arrangement}
+                    position={stepPosition}
+                    isPlaying={appState === AppState.PLAYING}
+                    enabled={isArrangementOn}
+                    onToggle={handleArrangementToggle}
+                />
+            )}
+
             <div className="h-12 flex items-center justify-between text-xs font-mono text-gray-500 px-4 bg-black/40">
                 <div className="flex gap-4">
                     {sonicParams && (
@@ -232,11 +545,140 @@ const App: React.FC = () => {
                             <span className="text-cyan-700">STYLE: <span className="text-white bg-cyan-900/50 px-1">{sonicParams.style.toUpperCase()}</span></span>
                             <span className="text-cyan-700">BPM: <span className="text-cyan-400">{sonicParams.bpm}</span></span>
                             <span className="hidden sm:inline text-cyan-700">CMPX: <span className="text-cyan-400">{sonicParams.complexity.toFixed(2)}</span></span>
+                            <LoudnessMeter reading={loudness} autoGain={isAutoGainOn} onAutoGainToggle={handleAutoGainToggle} />
+                            <label className="hidden lg:inline text-cyan-700">SEED:{' '}
+                                <input
+                                    key={sonicParams.seed}
+                                    defaultValue={sonicParams.seed}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleSeedChange(e.currentTarget.value); }}
+                                    onBlur={(e) => handleSeedChange(e.currentTarget.value)}
+                                    className="w-24 bg-transparent text-cyan-400 border-b border-cyan-900 focus:outline-none focus:border-cyan-400"
+                                />
+                            </label>
                         </>
                     )}
                 </div>
                 
                 <div className="flex gap-4 items-center">
+                    {/* Offline WAV Export */}
+                    {sonicParams && (appState === AppState.READY || appState === AppState.PLAYING) && (
+                        <div className="hidden md:flex gap-1 items-center">
+                            <select
+                                value={exportBars}
+                                onChange={(e) => setExportBars(Number(e.target.value))}
+                                className="bg-black border border-gray-700 text-gray-400 px-1 py-1 rounded"
+                            >
+                                <option value={0}>{isArrangementOn ? 'TRACK' : 'FORM'}</option>
+                                {[8, 16, 32, 64].map(bars => <option key={bars} value={bars}>{bars} BARS</option>)}
+                            </select>
+                            <select
+                                value={exportBitDepth}
+                                onChange={(e) => setExportBitDepth(Number(e.target.value) as WavBitDepth)}
+                                className="bg-black border border-gray-700 text-gray-400 px-1 py-1 rounded"
+                            >
+                                <option value={16}>16-BIT</option>
+                                <option value={24}>24-BIT</option>
+                            </select>
+                            <button
+                                onClick={handleExportWav}
+                                disabled={isRendering}
+                                className={`px-2 py-1 border rounded transition-colors ${isRendering ? 'border-cyan-500/50 text-cyan-400 animate-pulse' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                            >
+                                {isRendering ? 'RENDERING...' : 'EXPORT WAV'}
+                            </button>
+                            <button
+                                onClick={handleExportMidi}
+                                className="px-2 py-1 border rounded transition-colors border-gray-700 text-gray-500 hover:text-gray-300"
+                            >
+                                EXPORT MIDI
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Parameter Editor */}
+                    {sonicParams && (
+                        <button 
+                            onClick={() => setIsParamPanelOpen(!isParamPanelOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isParamPanelOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            PARAMS
+                        </button>
+                    )}
+
+                    {/* Step Sequencer */}
+                    {pattern && (
+                        <button 
+                            onClick={() => setIsSequencerOpen(!isSequencerOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isSequencerOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            SEQ
+                        </button>
+                    )}
+
+                    {/* Gesture Automation */}
+                    {sonicParams && (
+                        <AutomationControls
+                            mode={automationMode}
+                            pointCount={automationPoints}
+                            onModeChange={handleAutomationModeChange}
+                            onClear={handleAutomationClear}
+                        />
+                    )}
+
+                    {/* Groove */}
+                    {groove && (
+                        <button 
+                            onClick={() => setIsGroovePanelOpen(!isGroovePanelOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isGroovePanelOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            GROOVE
+                        </button>
+                    )}
+
+                    {/* Sample Kits */}
+                    {sonicParams && (
+                        <button 
+                            onClick={() => setIsKitPanelOpen(!isKitPanelOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isKitPanelOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            KIT
+                        </button>
+                    )}
+
+                    {/* MIDI Output */}
+                    {appState !== AppState.IDLE && (
+                        <button 
+                            onClick={() => setIsMidiPanelOpen(!isMidiPanelOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isMidiPanelOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            MIDI
+                        </button>
+                    )}
+
+                    {/* Clock Sync */}
+                    {appState !== AppState.IDLE && (
+                        <button 
+                            onClick={() => setIsSyncPanelOpen(!isSyncPanelOpen)} 
+                            className={`px-2 py-1 border rounded transition-colors ${isSyncPanelOpen ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            SYNC
+                        </button>
+                    )}
+
+                    {/* Scene Save / Load */}
+                    {sonicParams && (appState === AppState.READY || appState === AppState.PLAYING) && (
+                        <button 
+                            onClick={handleSaveScene} 
+                            className="px-2 py-1 border rounded transition-colors border-gray-700 text-gray-500 hover:text-gray-300"
+                        >
+                            SAVE
+                        </button>
+                    )}
+                    <label className="px-2 py-1 border rounded transition-colors border-gray-700 text-gray-500 hover:text-gray-300 cursor-pointer">
+                        LOAD
+                        <input type="file" accept=".json,application/json" onChange={handleLoadScene} className="hidden" />
+                    </label>
+
                     {/* Camera Toggle */}
                     {appState !== AppState.IDLE && (
                         <button 
@@ -256,6 +698,45 @@ const App: React.FC = () => {
             </div>
         </div>
 
+        {(isParamPanelOpen || isKitPanelOpen) && sonicParams && (
+            <div className="absolute bottom-80 left-4 md:left-12 z-40 flex gap-2 items-end">
+                {isParamPanelOpen && <ParameterPanel params={sonicParams} onChange={handleParamsChange} customTuning={customTuning} onImportTuning={handleImportTuning} />}
+                {isKitPanelOpen && <SampleKitPanel kits={sampleKitsRef.current} currentStyle={sonicParams.style} />}
+            </div>
+        )}
+
+        {((isSequencerOpen && pattern) || (isGroovePanelOpen && groove)) && (
+            <div className="absolute bottom-80 left-1/2 -translate-x-1/2 z-40 flex flex-col gap-2">
+                {isSequencerOpen && pattern && sonicParams && (
+                    <StepSequencer
+                        pattern={pattern}
+                        meter={meterFor(sonicParams.timeSignature)}
+                        position={stepPosition}
+                        isPlaying={appState === AppState.PLAYING}
+                        onChange={handlePatternChange}
+                    />
+                )}
+                {isGroovePanelOpen && groove && sonicParams && (
+                    <GroovePanel
+                        groove={groove}
+                        style={sonicParams.style}
+                        meter={meterFor(sonicParams.timeSignature)}
+                        position={stepPosition}
+                        isPlaying={appState === AppState.PLAYING}
+                        onChange={handleGrooveChange}
+                    />
+                )}
+            </div>
+        )}
+
+        {(isMidiPanelOpen || isSyncPanelOpen) && appState !== AppState.IDLE && (
+            <div className="absolute bottom-80 right-4 md:right-12 z-40 flex gap-2 items-end">
+                {isSyncPanelOpen && <ClockSyncPanel clockSync={clockSyncRef.current} />}
+                {isMidiPanelOpen && <MidiInputPanel midiInput={midiInputRef.current} />}
+                {isMidiPanelOpen && <MidiOutputPanel midiOutput={midiOutputRef.current} />}
+            </div>
+        )}
+
         {appState === AppState.ERROR && (
             <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-red-900/90 text-white px-6 py-3 rounded border border-red-500 backdrop-blur-md shadow-xl z-50">
                 {errorMsg}
@@ -1,13 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { SonicParameters } from '../types';
+import { StepPosition } from '../services/meter';
+import { SCALE_LIBRARY } from '../services/tuning';
 
 interface AnalysisHUDProps {
   imageSrc: string;
   isAnalyzing: boolean;
   isPlaying: boolean;
   sonicParams: SonicParameters | null;
-  currentStep: number;
+  position: StepPosition;
   onColorsDetected?: (colors: string[]) => void;
+  presetColors?: string[]; // Restored from a scene instead of sampling the image
 }
 
 interface ScanBox {
@@ -20,7 +23,7 @@ interface ScanBox {
   value: string;
 }
 
-const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlaying, sonicParams, currentStep, onColorsDetected }) => {
+const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlaying, sonicParams, position, onColorsDetected, presetColors }) => {
   const [colors, setColors] = useState<string[]>([]);
   const [scanBoxes, setScanBoxes] = useState<ScanBox[]>([]);
   const [logs, setLogs] = useState<string[]>([]);
@@ -29,6 +32,10 @@ const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlay
 
   // Color Extraction
   useEffect(() => {
+    if (presetColors && presetColors.length > 0) {
+      setColors(presetColors);
+      return;
+    }
     if (!canvasRef.current || !imageSrc) return;
     const img = new Image();
     img.crossOrigin = "Anonymous";
@@ -55,7 +62,7 @@ const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlay
         onColorsDetected(newColors);
       }
     };
-  }, [imageSrc]); // Removed onColorsDetected from dependency to avoid loop if parent function is unstable
+  }, [imageSrc, presetColors]); // Removed onColorsDetected from dependency to avoid loop if parent function is unstable
 
   // Scanning Animation
   useEffect(() => {
@@ -98,20 +105,25 @@ const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlay
   }, [isAnalyzing]);
 
   // Playback Zone Calculation
-  // We map the 16 steps to a 4x4 grid on the image
+  // We map the bar's steps to a near-square grid on the image (4x4 in 4/4, 4x3 in 3/4, 5x4 in 5/4)
   const getPlaybackZone = () => {
-      const col = currentStep % 4;
-      const row = Math.floor(currentStep / 4);
+      const cols = Math.ceil(Math.sqrt(position.stepsPerBar));
+      const rows = Math.ceil(position.stepsPerBar / cols);
+      const col = position.step % cols;
+      const row = Math.floor(position.step / cols);
       
       // Add slight jitter so it doesn't look too rigid
       const jitterX = (Math.sin(Date.now() / 100) * 2); 
       const jitterY = (Math.cos(Date.now() / 100) * 2);
 
+      const cellWidth = 100 / cols;
+      const cellHeight = 100 / rows;
+
       return {
-          left: `${(col * 25) + 2 + jitterX}%`,
-          top: `${(row * 25) + 2 + jitterY}%`,
-          width: '21%',
-          height: '21%'
+          left: `${(col * cellWidth) + 2 + jitterX}%`,
+          top: `${(row * cellHeight) + 2 + jitterY}%`,
+          width: `${cellWidth - 4}%`,
+          height: `${cellHeight - 4}%`
       };
   };
 
@@ -170,7 +182,7 @@ const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlay
             style={getPlaybackZone()}
           >
                <div className="absolute -top-5 left-0 bg-cyan-900/90 text-[10px] px-1 text-cyan-100 font-mono border border-cyan-500/50">
-                  AUDIO_SOURCE: SECTOR {currentStep + 1}
+                  AUDIO_SOURCE: SECTOR {position.step + 1}/{position.stepsPerBar}
                </div>
                {/* Decorative Crosshair */}
                <div className="absolute top-1/2 left-0 w-full h-[1px] bg-cyan-400/40" />
@@ -210,6 +222,7 @@ const AnalysisHUD: React.FC<AnalysisHUDProps> = ({ imageSrc, isAnalyzing, isPlay
                  <div className="inline-flex gap-8 text-[10px] text-cyan-200 font-mono tracking-[0.2em] border-t border-b border-cyan-500/30 py-2 bg-black/60 backdrop-blur-sm shadow-[0_0_20px_rgba(0,0,0,0.5)]">
                     <span>WAVEFORM: {sonicParams.synthType.toUpperCase()}</span>
                     <span>FREQ: {sonicParams.baseNoteFrequency.toFixed(1)}HZ</span>
+                    {sonicParams.scale && sonicParams.scale !== 'custom' && <span>SCALE: {SCALE_LIBRARY[sonicParams.scale].name.toUpperCase()}</span>}
                     <span>SPACE: {(sonicParams.space * 100).toFixed(0)}%</span>
                  </div>
              </div>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Arrangement, SectionKind } from '../services/arrangement';
+import { StepPosition } from '../services/meter';
+
+interface ArrangementTimelineProps {
+  arrangement: Arrangement;
+  position: StepPosition;
+  isPlaying: boolean;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+const SECTION_COLORS: Record<SectionKind, string> = {
+  intro: 'bg-gray-800/80',
+  build: 'bg-yellow-900/50',
+  drop: 'bg-cyan-900/60',
+  breakdown: 'bg-purple-900/50',
+  outro: 'bg-gray-800/80'
+};
+
+const ArrangementTimeline: React.FC<ArrangementTimelineProps> = ({ arrangement, position, isPlaying, enabled, onToggle }) => {
+  const { totalBars } = arrangement;
+  const playhead = (position.songBar + position.step / position.stepsPerBar) / totalBars;
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 bg-black/80 border-b border-gray-800 font-mono text-[10px] text-gray-400">
+      <button
+        onClick={() => onToggle(!enabled)}
+        className={`w-12 px-1 border rounded transition-colors ${enabled ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+      >
+        {enabled ? 'TRACK' : 'LOOP'}
+      </button>
+
+      <div className={`relative flex flex-1 h-5 gap-px ${enabled ? '' : 'opacity-30'}`}>
+        {arrangement.sections.map(section => (
+          <div
+            key={section.startBar}
+            className={`flex items-center justify-center truncate ${SECTION_COLORS[section.kind]}`}
+            style={{ width: `${(section.bars / totalBars) * 100}%` }}
+            title={`${section.kind.toUpperCase()} / ${section.bars} BARS / ${section.layers.join(' ').toUpperCase()}`}
+          >
+            {section.kind.toUpperCase()}
+          </div>
+        ))}
+        {enabled && isPlaying && (
+          <div className="absolute top-0 bottom-0 w-px bg-white" style={{ left: `${Math.min(1, playhead) * 100}%` }} />
+        )}
+      </div>
+
+      <span className="w-16 text-right text-cyan-400">
+        {enabled ? `${Math.min(position.songBar + 1, totalBars)}/${totalBars}` : `BAR ${position.songBar + 1}`}
+      </span>
+    </div>
+  );
+};
+
+export default ArrangementTimeline;
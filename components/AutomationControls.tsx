@@ -0,0 +1,39 @@
+import React from 'react';
+import { AutomationMode } from '../services/automation';
+
+interface AutomationControlsProps {
+  mode: AutomationMode;
+  pointCount: number;
+  onModeChange: (mode: AutomationMode) => void;
+  onClear: () => void;
+}
+
+// Footer transport for the gesture take: REC overdubs while replaying, PLAY replays only
+const AutomationControls: React.FC<AutomationControlsProps> = ({ mode, pointCount, onModeChange, onClear }) => {
+  const toggle = (target: AutomationMode) => onModeChange(mode === target ? 'off' : target);
+
+  return (
+    <div className="flex items-center gap-1" title={`${pointCount} recorded gesture points`}>
+      <button
+        onClick={() => toggle('record')}
+        className={`px-2 py-1 border rounded transition-colors ${mode === 'record' ? 'border-red-500/50 text-red-400 bg-red-900/30 animate-pulse' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+      >
+        REC
+      </button>
+      <button
+        onClick={() => toggle('play')}
+        disabled={pointCount === 0}
+        className={`px-2 py-1 border rounded transition-colors disabled:opacity-30 ${mode === 'play' ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+      >
+        AUTO
+      </button>
+      {pointCount > 0 && (
+        <button onClick={onClear} className="px-1 text-gray-600 hover:text-gray-300 transition-colors">
+          CLR
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AutomationControls;
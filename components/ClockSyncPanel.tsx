@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { ClockSync, ClockSyncMode, ClockSyncStatus } from '../services/clockSync';
+
+interface ClockSyncPanelProps {
+  clockSync: ClockSync;
+}
+
+const MODES: { mode: ClockSyncMode; label: string }[] = [
+  { mode: 'off', label: 'OFF' },
+  { mode: 'master', label: 'MASTER' },
+  { mode: 'follower', label: 'FOLLOW' }
+];
+
+const STATUS_COLORS: Record<ClockSyncStatus, string> = {
+  disconnected: 'text-gray-600',
+  connecting: 'text-yellow-400 animate-pulse',
+  connected: 'text-cyan-400',
+  locked: 'text-green-400',
+  error: 'text-red-400'
+};
+
+const ClockSyncPanel: React.FC<ClockSyncPanelProps> = ({ clockSync }) => {
+  const [mode, setMode] = useState<ClockSyncMode>(clockSync.getMode());
+  const [status, setStatus] = useState<ClockSyncStatus>(clockSync.getStatus());
+  const [url, setUrl] = useState<string>(clockSync.getUrl());
+
+  useEffect(() => {
+    clockSync.setOnStatus(setStatus);
+    return () => clockSync.setOnStatus(null);
+  }, [clockSync]);
+
+  const handleMode = (next: ClockSyncMode) => {
+    clockSync.setMode(next);
+    setMode(next);
+  };
+
+  const handleUrl = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    clockSync.setUrl(trimmed);
+    setUrl(clockSync.getUrl());
+  };
+
+  if (!ClockSync.isSupported()) {
+    return (
+      <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-64">
+        <div className="text-cyan-100 border-b border-cyan-800 pb-1">CLOCK_SYNC</div>
+        <div className="text-red-400">WEBSOCKET NOT SUPPORTED</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-64">
+      <div className="flex justify-between text-cyan-100 border-b border-cyan-800 pb-1">
+        <span>CLOCK_SYNC</span>
+        <span className={STATUS_COLORS[status]}>{status.toUpperCase()}</span>
+      </div>
+
+      <div className="flex gap-1">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => handleMode(option.mode)}
+            className={`flex-1 px-1 border rounded transition-colors ${mode === option.mode ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span className="w-10">RELAY</span>
+        <input
+          key={url}
+          defaultValue={url}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleUrl(e.currentTarget.value); }}
+          onBlur={(e) => handleUrl(e.currentTarget.value)}
+          className="flex-1 bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded focus:outline-none focus:border-cyan-400"
+        />
+      </label>
+
+      <div className="text-gray-600">
+        {mode === 'master' && 'BROADCASTING TEMPO + PHASE'}
+        {mode === 'follower' && 'BARS LOCK TO THE MASTER'}
+        {mode === 'off' && 'RUN `npm run relay` TO TEST LOCALLY'}
+      </div>
+    </div>
+  );
+};
+
+export default ClockSyncPanel;
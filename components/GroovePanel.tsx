@@ -0,0 +1,118 @@
+import React from 'react';
+import { getDefaultGroove, GrooveTemplate, HUMANIZE_RANGE, SWING_RANGE, TIMING_RANGE } from '../services/groove';
+import { Meter, StepPosition } from '../services/meter';
+import { MusicStyle } from '../types';
+
+interface GroovePanelProps {
+  groove: GrooveTemplate;
+  style: MusicStyle;
+  meter: Meter;
+  position: StepPosition;
+  isPlaying: boolean;
+  onChange: (groove: GrooveTemplate) => void;
+}
+
+const WHEEL_STEP = 0.05;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value));
+
+const GroovePanel: React.FC<GroovePanelProps> = ({ groove, style, meter, position, isPlaying, onChange }) => {
+  // Templates span one bar of the active meter
+  const activeStep = position.step % groove.accents.length;
+
+  // Wheel up/down nudges a step; click restores its neutral value
+  const setAccent = (step: number, value: number) => {
+    const accents = [...groove.accents];
+    accents[step] = Math.round(clamp(value, [0, 1]) * 100) / 100;
+    onChange({ ...groove, accents });
+  };
+
+  const setTiming = (step: number, value: number) => {
+    const timing = [...groove.timing];
+    timing[step] = Math.round(clamp(value, TIMING_RANGE) * 100) / 100;
+    onChange({ ...groove, timing });
+  };
+
+  const cellClass = (step: number) => {
+    const isCurrent = isPlaying && step === activeStep;
+    // Shade alternates with the meter's pulses (3+3 in 6/8, 2+2+3 in 7/8)
+    const pulse = meter.beats.filter(beat => beat <= step).length - 1;
+    const beatShade = pulse % 2 === 0 ? 'bg-gray-900' : 'bg-gray-800/60';
+    return `relative w-6 h-6 border border-gray-800 hover:border-gray-600 overflow-hidden ${beatShade} ${isCurrent ? 'ring-1 ring-white' : ''}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-1 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400">
+      <div className="flex justify-between text-cyan-100 border-b border-cyan-800 pb-1 mb-1">
+        <span>GROOVE</span>
+        <span className="text-gray-600">WHEEL = ADJUST / CLICK = RESET</span>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span className="w-12">SWING</span>
+        <input
+          type="range"
+          min={SWING_RANGE[0]}
+          max={SWING_RANGE[1]}
+          step={1}
+          value={groove.swing}
+          onChange={(e) => onChange({ ...groove, swing: Number(e.target.value) })}
+          className="flex-1 accent-cyan-400"
+        />
+        <span className="w-12 text-right text-cyan-400">{groove.swing}%</span>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-12">HUMAN</span>
+        <input
+          type="range"
+          min={HUMANIZE_RANGE[0]}
+          max={HUMANIZE_RANGE[1]}
+          step={0.01}
+          value={groove.humanize}
+          onChange={(e) => onChange({ ...groove, humanize: Number(e.target.value) })}
+          className="flex-1 accent-cyan-400"
+        />
+        <span className="w-12 text-right text-cyan-400">{Math.round(groove.humanize * 100)}%</span>
+      </label>
+
+      <div className="flex items-center gap-1">
+        <span className="w-12">ACCENT</span>
+        <div className="grid gap-px flex-1" style={{ gridTemplateColumns: `repeat(${groove.accents.length}, minmax(0, 1fr))` }}>
+          {groove.accents.map((accent, step) => (
+            <button
+              key={step}
+              onClick={() => setAccent(step, 1)}
+              onWheel={(e) => setAccent(step, accent + (e.deltaY < 0 ? WHEEL_STEP : -WHEEL_STEP))}
+              className={cellClass(step)}
+            >
+              <span className="absolute bottom-0 left-0 right-0 bg-cyan-500/70" style={{ height: `${accent * 100}%` }} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span className="w-12">TIMING</span>
+        <div className="grid gap-px flex-1" style={{ gridTemplateColumns: `repeat(${groove.accents.length}, minmax(0, 1fr))` }}>
+          {groove.timing.map((offset, step) => (
+            <button
+              key={step}
+              onClick={() => setTiming(step, 0)}
+              onWheel={(e) => setTiming(step, offset + (e.deltaY < 0 ? WHEEL_STEP : -WHEEL_STEP))}
+              className={cellClass(step)}
+            >
+              <span className="absolute top-0 bottom-0 w-px bg-cyan-300" style={{ left: `${(offset + 0.5) * 100}%` }} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button onClick={() => onChange(getDefaultGroove(style, meter))} className="self-end text-gray-600 hover:text-gray-300 transition-colors">
+        [ {style.toUpperCase()} DEFAULT ]
+      </button>
+    </div>
+  );
+};
+
+export default GroovePanel;
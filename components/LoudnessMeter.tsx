@@ -0,0 +1,38 @@
+import React from 'react';
+import { LIMITER_CEILING_DB, LOUDNESS_TARGET, LoudnessReading } from '../services/masterSection';
+
+interface LoudnessMeterProps {
+  reading: LoudnessReading;
+  autoGain: boolean;
+  onAutoGainToggle: (enabled: boolean) => void;
+}
+
+const formatDb = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-INF';
+
+// Footer readout: short-term / integrated LUFS, true-peak hold and limiter activity
+const LoudnessMeter: React.FC<LoudnessMeterProps> = ({ reading, autoGain, onAutoGainToggle }) => {
+  const isHot = reading.truePeakMax > LIMITER_CEILING_DB + 0.1;
+  const isLimiting = reading.gainReduction > 0.5;
+
+  return (
+    <>
+      <span className="hidden md:inline text-cyan-700" title={`Short-term / integrated, target ${LOUDNESS_TARGET} LUFS`}>
+        LUFS: <span className="text-cyan-400">{formatDb(reading.shortTerm)}</span>
+        <span className="text-gray-600"> / </span>
+        <span className="text-cyan-400">{formatDb(reading.integrated)}</span>
+      </span>
+      <span className="hidden md:inline text-cyan-700" title="True-peak hold; turns yellow while the limiter is working">
+        TP: <span className={isHot ? 'text-red-400' : isLimiting ? 'text-yellow-400' : 'text-cyan-400'}>{formatDb(reading.truePeakMax)}</span>
+      </span>
+      <button
+        onClick={() => onAutoGainToggle(!autoGain)}
+        title={`Auto-gain toward ${LOUDNESS_TARGET} LUFS`}
+        className={`hidden md:inline px-1 border rounded transition-colors ${autoGain ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+      >
+        AGC
+      </button>
+    </>
+  );
+};
+
+export default LoudnessMeter;
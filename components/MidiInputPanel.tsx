@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { CONTROL_TARGETS, ControlTarget, MidiBinding, MidiInput } from '../services/midiInput';
+import { MidiPortInfo } from '../services/midiOutput';
+
+interface MidiInputPanelProps {
+  midiInput: MidiInput;
+}
+
+const TARGET_LABELS: Record<ControlTarget, string> = {
+  cutoff: 'FILTER',
+  resonance: 'RES',
+  fist: 'BUILD UP',
+  pinch: 'WOBBLE'
+};
+
+const formatBinding = (binding: MidiBinding) => {
+  const channel = binding.channel === null ? 'ANY' : binding.channel + 1;
+  return `${binding.kind.toUpperCase()} ${binding.number} / CH ${channel}`;
+};
+
+const MidiInputPanel: React.FC<MidiInputPanelProps> = ({ midiInput }) => {
+  const [ports, setPorts] = useState<MidiPortInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(midiInput.getSelectedInputId());
+  const [bindings, setBindings] = useState<Record<ControlTarget, MidiBinding>>(midiInput.getBindings());
+  const [learnTarget, setLearnTarget] = useState<ControlTarget | null>(midiInput.getLearnTarget());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!MidiInput.isSupported()) {
+      setError("WEB MIDI NOT SUPPORTED");
+      return;
+    }
+    midiInput.init()
+      .then(setPorts)
+      .catch(err => {
+        console.error("MIDI access denied:", err);
+        setError("MIDI ACCESS DENIED");
+      });
+
+    midiInput.setOnBindingsChange((nextBindings, nextLearnTarget) => {
+      setBindings(nextBindings);
+      setLearnTarget(nextLearnTarget);
+    });
+    return () => midiInput.setOnBindingsChange(null);
+  }, [midiInput]);
+
+  const handleSelect = (id: string) => {
+    midiInput.selectInput(id || null);
+    setSelectedId(midiInput.getSelectedInputId());
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-64">
+      <div className="text-cyan-100 border-b border-cyan-800 pb-1">MIDI_IN</div>
+      {error ? (
+        <div className="text-red-400">{error}</div>
+      ) : (
+        <>
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+          >
+            <option value="">-- OFF --</option>
+            {ports.map(port => <option key={port.id} value={port.id}>{port.name}</option>)}
+          </select>
+
+          {CONTROL_TARGETS.map(target => (
+            <div key={target} className="flex items-center justify-between gap-2">
+              <span className="w-16">{TARGET_LABELS[target]}</span>
+              <span className="flex-1 text-gray-500">{formatBinding(bindings[target])}</span>
+              <button
+                onClick={() => learnTarget === target ? midiInput.cancelLearn() : midiInput.startLearn(target)}
+                className={`px-1 border rounded transition-colors ${learnTarget === target ? 'border-yellow-500/50 text-yellow-400 animate-pulse' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+              >
+                {learnTarget === target ? 'WAIT' : 'LEARN'}
+              </button>
+            </div>
+          ))}
+
+          <button onClick={() => midiInput.resetBindings()} className="self-end text-gray-600 hover:text-gray-300 transition-colors">
+            [ DEFAULTS ]
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MidiInputPanel;
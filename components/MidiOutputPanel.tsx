@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { MidiOutput, MidiPortInfo } from '../services/midiOutput';
+import { MIDI_TRACKS, MidiTrackId } from '../services/midi';
+
+interface MidiOutputPanelProps {
+  midiOutput: MidiOutput;
+}
+
+const MidiOutputPanel: React.FC<MidiOutputPanelProps> = ({ midiOutput }) => {
+  const [ports, setPorts] = useState<MidiPortInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(midiOutput.getSelectedOutputId());
+  const [channels, setChannels] = useState<Record<MidiTrackId, number>>(midiOutput.getChannels());
+  const [clockEnabled, setClockEnabled] = useState<boolean>(midiOutput.getClockEnabled());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!MidiOutput.isSupported()) {
+      setError("WEB MIDI NOT SUPPORTED");
+      return;
+    }
+    midiOutput.init()
+      .then(setPorts)
+      .catch(err => {
+        console.error("MIDI access denied:", err);
+        setError("MIDI ACCESS DENIED");
+      });
+  }, [midiOutput]);
+
+  const handleSelect = (id: string) => {
+    midiOutput.selectOutput(id || null);
+    setSelectedId(midiOutput.getSelectedOutputId());
+  };
+
+  const handleChannel = (track: MidiTrackId, channel: number) => {
+    midiOutput.setChannel(track, channel);
+    setChannels(midiOutput.getChannels());
+  };
+
+  const handleClock = () => {
+    midiOutput.setClockEnabled(!clockEnabled);
+    setClockEnabled(!clockEnabled);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-64">
+      <div className="text-cyan-100 border-b border-cyan-800 pb-1">MIDI_OUT</div>
+      {error ? (
+        <div className="text-red-400">{error}</div>
+      ) : (
+        <>
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+          >
+            <option value="">-- OFF --</option>
+            {ports.map(port => <option key={port.id} value={port.id}>{port.name}</option>)}
+          </select>
+
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {MIDI_TRACKS.map(track => (
+              <label key={track} className="flex items-center justify-between gap-2">
+                <span>{track.toUpperCase()}</span>
+                <select
+                  value={channels[track]}
+                  onChange={(e) => handleChannel(track, Number(e.target.value))}
+                  className="bg-black border border-gray-700 text-gray-300 px-1 rounded"
+                >
+                  {Array.from({ length: 16 }, (_, ch) => <option key={ch} value={ch}>CH {ch + 1}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={handleClock}
+            className={`px-2 py-1 border rounded transition-colors ${clockEnabled ? 'border-green-500/50 text-green-400 bg-green-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+          >
+            CLOCK: {clockEnabled ? 'SEND' : 'OFF'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MidiOutputPanel;
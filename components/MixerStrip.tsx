@@ -0,0 +1,100 @@
+import React from 'react';
+import { BusSettings, MIXER_BUSES, MixerBusId } from '../services/audioEngine';
+import { SIDECHAIN_RANGES, SidechainSettings } from '../services/sidechain';
+import { StereoSettings } from '../services/stereo';
+
+interface MixerStripProps {
+  mixer: Record<MixerBusId, BusSettings>;
+  onChange: (bus: MixerBusId, update: Partial<BusSettings>) => void;
+  sidechain: SidechainSettings;
+  onSidechainChange: (update: Partial<SidechainSettings>) => void;
+  stereo: StereoSettings;
+  onStereoChange: (update: Partial<StereoSettings>) => void;
+}
+
+interface KnobRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const KnobRow: React.FC<KnobRowProps> = ({ label, value, min, max, step = 0.01, onChange }) => (
+  <label className="flex items-center gap-1">
+    <span className="w-6 text-gray-600">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 h-1 accent-cyan-400"
+    />
+  </label>
+);
+
+const MixerStrip: React.FC<MixerStripProps> = ({ mixer, onChange, sidechain, onSidechainChange, stereo, onStereoChange }) => {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-6 gap-px bg-gray-900 border-b border-gray-800 font-mono text-[10px] text-gray-400">
+      {MIXER_BUSES.map(bus => {
+        const settings = mixer[bus];
+        return (
+          <div key={bus} className="flex flex-col gap-1 px-3 py-2 bg-black/80">
+            <div className="flex items-center justify-between">
+              <span className="text-cyan-100 tracking-widest">{bus.toUpperCase()}</span>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onChange(bus, { mute: !settings.mute })}
+                  className={`w-5 border rounded transition-colors ${settings.mute ? 'border-red-500/50 text-red-400 bg-red-900/30' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onChange(bus, { solo: !settings.solo })}
+                  className={`w-5 border rounded transition-colors ${settings.solo ? 'border-yellow-500/50 text-yellow-400 bg-yellow-900/30' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                >
+                  S
+                </button>
+              </div>
+            </div>
+            <KnobRow label="VOL" value={settings.volume} min={0} max={1.5} onChange={(volume) => onChange(bus, { volume })} />
+            <KnobRow label="PAN" value={settings.pan} min={-1} max={1} onChange={(pan) => onChange(bus, { pan })} />
+            <KnobRow label="DLY" value={settings.delaySend} min={0} max={1} onChange={(delaySend) => onChange(bus, { delaySend })} />
+            <KnobRow label="REV" value={settings.reverbSend} min={0} max={1} onChange={(reverbSend) => onChange(bus, { reverbSend })} />
+          </div>
+        );
+      })}
+
+      {/* Kick Sidechain (ducks bass and chords) */}
+      <div className="flex flex-col gap-1 px-3 py-2 bg-black/80">
+        <div className="flex items-center justify-between">
+          <span className="text-cyan-100 tracking-widest">DUCK</span>
+          <span className="text-gray-600">{sidechain.depth > 0 ? `${Math.round(sidechain.depth * 100)}%` : 'OFF'}</span>
+        </div>
+        <KnobRow label="DPT" value={sidechain.depth} min={SIDECHAIN_RANGES.depth[0]} max={SIDECHAIN_RANGES.depth[1]} onChange={(depth) => onSidechainChange({ depth })} />
+        <KnobRow label="ATK" value={sidechain.attack} min={SIDECHAIN_RANGES.attack[0]} max={SIDECHAIN_RANGES.attack[1]} step={0.001} onChange={(attack) => onSidechainChange({ attack })} />
+        <KnobRow label="REL" value={sidechain.release} min={SIDECHAIN_RANGES.release[0]} max={SIDECHAIN_RANGES.release[1]} onChange={(release) => onSidechainChange({ release })} />
+      </div>
+
+      {/* Stereo Field (pad width, binaural placement) */}
+      <div className="flex flex-col gap-1 px-3 py-2 bg-black/80">
+        <div className="flex items-center justify-between">
+          <span className="text-cyan-100 tracking-widest">STEREO</span>
+          <button
+            onClick={() => onStereoChange({ hrtf: !stereo.hrtf })}
+            title="Binaural placement, best on headphones"
+            className={`px-1 border rounded transition-colors ${stereo.hrtf ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+          >
+            HRTF
+          </button>
+        </div>
+        <KnobRow label="WID" value={stereo.width} min={0} max={1} onChange={(width) => onStereoChange({ width })} />
+      </div>
+    </div>
+  );
+};
+
+export default MixerStrip;
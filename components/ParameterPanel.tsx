@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { MusicStyle, ScaleId, SonicParameters, TimeSignature } from '../types';
+import { DEFAULT_TIME_SIGNATURE, TIME_SIGNATURES } from '../services/meter';
+import { TapTempo } from '../services/tapTempo';
+import { BPM_RANGE } from '../services/tempo';
+import { DEFAULT_SCALES, LIBRARY_SCALES, SCALE_LIBRARY, Tuning } from '../services/tuning';
+import { SYNTH_TYPES } from '../services/synthEngines';
+
+interface ParameterPanelProps {
+  params: SonicParameters;
+  onChange: (update: Partial<SonicParameters>) => void;
+  customTuning: Tuning | null;
+  onImportTuning: (files: File[]) => Promise<void>;
+}
+
+const STYLES: MusicStyle[] = ['techno', 'ambient', 'industrial', 'house', 'glitch', 'symphony', 'easy_listening'];
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="flex items-center gap-2">
+    <span className="w-20">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 accent-cyan-400"
+    />
+    <span className="w-12 text-right text-cyan-400">{format(value)}</span>
+  </label>
+);
+
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ params, onChange, customTuning, onImportTuning }) => {
+  const tapTempoRef = useRef<TapTempo>(new TapTempo());
+  const [tuningError, setTuningError] = useState<string | null>(null);
+
+  const handleTap = () => {
+    const bpm = tapTempoRef.current.tap();
+    if (bpm !== null) onChange({ bpm });
+  };
+
+  const handleTuningFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setTuningError(null);
+    onImportTuning(Array.from(files)).catch(err => {
+      console.error("Tuning import failed:", err);
+      setTuningError(err instanceof Error ? err.message.toUpperCase() : 'CANNOT LOAD TUNING');
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-72">
+      <div className="text-cyan-100 border-b border-cyan-800 pb-1">SONIC_PARAMETERS</div>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">STYLE</span>
+        <select
+          value={params.style}
+          onChange={(e) => onChange({ style: e.target.value as MusicStyle })}
+          className="flex-1 bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+        >
+          {STYLES.map(style => <option key={style} value={style}>{style.toUpperCase()}</option>)}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">WAVEFORM</span>
+        <select
+          value={params.synthType}
+          onChange={(e) => onChange({ synthType: e.target.value as SonicParameters['synthType'] })}
+          className="flex-1 bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+        >
+          {SYNTH_TYPES.map(type => <option key={type} value={type}>{type.toUpperCase()}</option>)}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-2">
+        <span className="w-20">SCALE</span>
+        <select
+          value={params.scale ?? ''}
+          onChange={(e) => onChange({ scale: (e.target.value || undefined) as ScaleId | undefined })}
+          className="flex-1 min-w-0 bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+        >
+          <option value="">AUTO ({SCALE_LIBRARY[DEFAULT_SCALES[params.style]].name.toUpperCase()})</option>
+          {LIBRARY_SCALES.map(id => <option key={id} value={id}>{SCALE_LIBRARY[id].name.toUpperCase()}</option>)}
+          {customTuning && <option value="custom">SCALA: {customTuning.name.toUpperCase()}</option>}
+        </select>
+        <label
+          title="Import a Scala .scl tuning, optionally with a .kbm keyboard mapping"
+          className="px-1 border rounded cursor-pointer transition-colors border-gray-700 text-gray-500 hover:text-gray-300"
+        >
+          SCL
+          <input
+            type="file"
+            multiple
+            accept=".scl,.kbm"
+            onChange={(e) => { handleTuningFiles(e.target.files); e.target.value = ''; }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {tuningError && <div className="text-red-400">{tuningError}</div>}
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">METER</span>
+        <select
+          value={params.timeSignature ?? DEFAULT_TIME_SIGNATURE}
+          onChange={(e) => onChange({ timeSignature: e.target.value as TimeSignature })}
+          className="flex-1 bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+        >
+          {TIME_SIGNATURES.map(sig => <option key={sig} value={sig}>{sig}</option>)}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <SliderRow label="BPM" value={params.bpm} min={BPM_RANGE[0]} max={BPM_RANGE[1]} step={1} format={(v) => v.toFixed(0)} onChange={(bpm) => onChange({ bpm })} />
+        </div>
+        <button
+          onClick={handleTap}
+          className="px-1 border rounded transition-colors border-gray-700 text-gray-500 hover:text-gray-300 active:text-cyan-400 active:border-cyan-500/50"
+        >
+          TAP
+        </button>
+      </div>
+      <SliderRow label="COMPLEXITY" value={params.complexity} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(complexity) => onChange({ complexity })} />
+      <SliderRow label="DARKNESS" value={params.darkness} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(darkness) => onChange({ darkness })} />
+      <SliderRow label="SPACE" value={params.space} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(space) => onChange({ space })} />
+      <SliderRow label="ROOT" value={params.baseNoteFrequency} min={30} max={120} step={0.5} format={(v) => `${v.toFixed(1)}HZ`} onChange={(baseNoteFrequency) => onChange({ baseNoteFrequency })} />
+    </div>
+  );
+};
+
+export default ParameterPanel;
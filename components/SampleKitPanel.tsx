@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { KIT_SLOTS, KitSlot, SampleKitLibrary } from '../services/sampleKits';
+import { MusicStyle } from '../types';
+
+interface SampleKitPanelProps {
+  kits: SampleKitLibrary;
+  currentStyle: MusicStyle;
+}
+
+const STYLES: MusicStyle[] = ['techno', 'ambient', 'industrial', 'house', 'glitch', 'symphony', 'easy_listening'];
+
+const SLOT_LABELS: Record<KitSlot, string> = {
+  kick: 'KICK',
+  snare: 'SNARE/CLAP',
+  hat: 'HAT',
+  perc: 'PERC',
+  timpani: 'TIMPANI'
+};
+
+const SampleKitPanel: React.FC<SampleKitPanelProps> = ({ kits, currentStyle }) => {
+  const [style, setStyle] = useState<MusicStyle>(currentStyle);
+  const [dragSlot, setDragSlot] = useState<KitSlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, setRevision] = useState(0);
+
+  useEffect(() => setStyle(currentStyle), [currentStyle]);
+
+  useEffect(() => {
+    kits.setOnChange(() => setRevision(r => r + 1));
+    return () => kits.setOnChange(null);
+  }, [kits]);
+
+  const handleFile = (slot: KitSlot, file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    kits.loadSample(style, slot, file).catch(err => {
+      console.error("Sample load failed:", err);
+      setError(`CANNOT LOAD ${file.name.toUpperCase()}`);
+    });
+  };
+
+  const handleDrop = (slot: KitSlot, e: React.DragEvent) => {
+    e.preventDefault();
+    setDragSlot(null);
+    handleFile(slot, e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400 w-64">
+      <div className="text-cyan-100 border-b border-cyan-800 pb-1">SAMPLE_KIT</div>
+
+      <select
+        value={style}
+        onChange={(e) => setStyle(e.target.value as MusicStyle)}
+        className="bg-black border border-gray-700 text-gray-300 px-1 py-1 rounded"
+      >
+        {STYLES.map(s => <option key={s} value={s}>{s.toUpperCase()}{s === currentStyle ? ' *' : ''}</option>)}
+      </select>
+
+      {KIT_SLOTS.map(slot => {
+        const name = kits.getSampleName(style, slot);
+        return (
+          <div key={slot} className="flex items-center justify-between gap-2">
+            <span className="w-16">{SLOT_LABELS[slot]}</span>
+            <label
+              onDragOver={(e) => { e.preventDefault(); setDragSlot(slot); }}
+              onDragLeave={() => setDragSlot(null)}
+              onDrop={(e) => handleDrop(slot, e)}
+              className={`flex-1 px-1 py-1 border border-dashed rounded truncate cursor-pointer transition-colors ${dragSlot === slot ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/20' : name ? 'border-gray-700 text-gray-300' : 'border-gray-800 text-gray-600 hover:text-gray-300'}`}
+            >
+              {name ?? 'DROP WAV/OGG'}
+              <input
+                type="file"
+                accept=".wav,.wave,.ogg,.oga,audio/wav,audio/ogg"
+                onChange={(e) => { handleFile(slot, e.target.files?.[0]); e.target.value = ''; }}
+                className="hidden"
+              />
+            </label>
+            {name && (
+              <button
+                onClick={() => kits.removeSample(style, slot).catch(err => console.error("Sample remove failed:", err))}
+                className="text-gray-600 hover:text-gray-300 transition-colors"
+              >
+                X
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <div className="text-red-400">{error}</div>}
+      <div className="text-gray-600">EMPTY SLOTS USE THE SYNTH VOICES</div>
+    </div>
+  );
+};
+
+export default SampleKitPanel;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { PatternModel } from '../services/audioEngine';
+import { Meter, StepPosition } from '../services/meter';
+
+interface StepSequencerProps {
+  pattern: PatternModel;
+  meter: Meter;
+  position: StepPosition;
+  isPlaying: boolean;
+  onChange: (pattern: PatternModel) => void;
+}
+
+type DrumLane = 'kick' | 'snare' | 'hat';
+type PitchLane = 'bass' | 'melody';
+
+const DRUM_LANES: DrumLane[] = ['kick', 'snare', 'hat'];
+const PITCH_LANES: PitchLane[] = ['bass', 'melody'];
+
+// Degree range per pitched lane (bass 0 = chord root)
+const DEGREE_RANGE: Record<PitchLane, [number, number]> = {
+  bass: [-7, 7],
+  melody: [0, 13]
+};
+
+// Lane lengths for polymeter, in 16ths
+const LANE_LENGTH_RANGE: [number, number] = [1, 32];
+
+type Lane = DrumLane | PitchLane;
+
+const StepSequencer: React.FC<StepSequencerProps> = ({ pattern, meter, position, isPlaying, onChange }) => {
+  // Each lane loops on its own length, so each has its own playhead
+  const activeStep = (lane: Lane) => position.tick % pattern[lane].length;
+
+  const toggleDrum = (lane: DrumLane, step: number) => {
+    const next = [...pattern[lane]];
+    next[step] = !next[step];
+    onChange({ ...pattern, [lane]: next });
+  };
+
+  const toggleNote = (lane: PitchLane, step: number) => {
+    const next = [...pattern[lane]];
+    next[step] = next[step] === null ? 0 : null;
+    onChange({ ...pattern, [lane]: next });
+  };
+
+  // Wheel up/down changes the scale degree of an active step
+  const shiftDegree = (lane: PitchLane, step: number, delta: number) => {
+    const current = pattern[lane][step];
+    if (current === null) return;
+    const [min, max] = DEGREE_RANGE[lane];
+    const next = [...pattern[lane]];
+    next[step] = Math.max(min, Math.min(max, current + delta));
+    onChange({ ...pattern, [lane]: next });
+  };
+
+  // Grows with rests / silent steps, shrinks from the end
+  const resizeLane = (lane: Lane, delta: number) => {
+    const current = pattern[lane] as (boolean | number | null)[];
+    const [min, max] = LANE_LENGTH_RANGE;
+    const length = Math.max(min, Math.min(max, current.length + delta));
+    const filler = (DRUM_LANES as Lane[]).includes(lane) ? false : null;
+    const next = Array.from({ length }, (_, step) => step < current.length ? current[step] : filler);
+    onChange({ ...pattern, [lane]: next });
+  };
+
+  const laneLength = (lane: Lane) => (
+    <div className="flex items-center gap-1 ml-1 text-gray-600">
+      <button onClick={() => resizeLane(lane, -1)} className="hover:text-gray-300 transition-colors">-</button>
+      <span className={`w-4 text-center ${pattern[lane].length !== position.stepsPerBar ? 'text-yellow-400' : ''}`}>{pattern[lane].length}</span>
+      <button onClick={() => resizeLane(lane, 1)} className="hover:text-gray-300 transition-colors">+</button>
+    </div>
+  );
+
+  const cellClass = (lane: Lane, step: number, isOn: boolean) => {
+    const isCurrent = isPlaying && step === activeStep(lane);
+    // Shade alternates with the meter's pulses; lanes longer than a bar repeat the grouping
+    const bar = Math.floor(step / meter.stepsPerBar);
+    const pulse = bar * meter.beats.length + meter.beats.filter(beat => beat <= step % meter.stepsPerBar).length - 1;
+    const beatShade = pulse % 2 === 0 ? 'bg-gray-900' : 'bg-gray-800/60';
+    return `h-6 flex items-center justify-center border transition-colors ${
+      isOn ? 'bg-cyan-500/70 border-cyan-300 text-black' : `${beatShade} border-gray-800 text-gray-600 hover:border-gray-600`
+    } ${isCurrent ? 'ring-1 ring-white' : ''}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-1 p-3 bg-black/90 border border-gray-800 rounded font-mono text-[10px] text-gray-400">
+      <div className="flex justify-between text-cyan-100 border-b border-cyan-800 pb-1 mb-1">
+        <span>STEP_SEQUENCER</span>
+        <span className="text-gray-600">WHEEL = DEGREE / +- = LANE LENGTH</span>
+      </div>
+
+      {DRUM_LANES.map(lane => (
+        <div key={lane} className="flex items-center gap-1">
+          <span className="w-12">{lane.toUpperCase()}</span>
+          <div className="grid gap-px flex-1" style={{ gridTemplateColumns: `repeat(${pattern[lane].length}, 1.5rem)` }}>
+            {pattern[lane].map((isOn, step) => (
+              <button key={step} onClick={() => toggleDrum(lane, step)} className={`w-6 ${cellClass(lane, step, isOn)}`} />
+            ))}
+          </div>
+          {laneLength(lane)}
+        </div>
+      ))}
+
+      {PITCH_LANES.map(lane => (
+        <div key={lane} className="flex items-center gap-1">
+          <span className="w-12">{lane.toUpperCase()}</span>
+          <div className="grid gap-px flex-1" style={{ gridTemplateColumns: `repeat(${pattern[lane].length}, 1.5rem)` }}>
+            {pattern[lane].map((degree, step) => (
+              <button
+                key={step}
+                onClick={() => toggleNote(lane, step)}
+                onWheel={(e) => shiftDegree(lane, step, e.deltaY < 0 ? 1 : -1)}
+                className={`w-6 ${cellClass(lane, step, degree !== null)}`}
+              >
+                {degree !== null ? degree : ''}
+              </button>
+            ))}
+          </div>
+          {laneLength(lane)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StepSequencer;
@@ -0,0 +1,122 @@
+// --- CLOCK RELAY ---
+// Minimal WebSocket relay for testing clock sync between instances (services/clockSync.ts).
+// Every text message from one client is forwarded to all the others. No dependencies:
+// only the parts of RFC 6455 the browser clients use (unfragmented text, ping, close).
+//
+//   npm run relay            # ws://localhost:8765
+//   PORT=9000 npm run relay
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8765;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 64 * 1024;
+
+const clients = new Set();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of a buffer; returns the unconsumed rest
+const readFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > MAX_PAYLOAD) throw new Error(`Frame too large: ${length} bytes`);
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket clock relay\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+
+  clients.add(socket);
+  console.log(`Client connected (${clients.size} total)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x1) {
+          const frame = encodeFrame(0x1, payload);
+          clients.forEach(client => { if (client !== socket) client.write(frame); });
+        } else if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, payload));
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload));
+        }
+      });
+    } catch (err) {
+      console.error(err.message);
+      socket.destroy();
+    }
+  });
+
+  const remove = () => {
+    if (clients.delete(socket)) console.log(`Client disconnected (${clients.size} total)`);
+  };
+  socket.on('close', remove);
+  socket.on('error', remove);
+});
+
+server.listen(PORT, () => {
+  console.log(`Clock relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,136 @@
+import { MusicStyle } from '../types';
+import { Rng } from './random';
+
+export type ArrangementLayer = 'kick' | 'snare' | 'hat' | 'bass' | 'chords' | 'lead';
+export type SectionKind = 'intro' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export const ALL_LAYERS: ArrangementLayer[] = ['kick', 'snare', 'hat', 'bass', 'chords', 'lead'];
+
+export interface ArrangementSection {
+  kind: SectionKind;
+  startBar: number;
+  bars: number;
+  layers: ArrangementLayer[]; // What plays; everything else rests
+  filter: [number, number]; // Master lowpass from section start to end, 0 = closed, 1 = open
+  fx: [number, number]; // Delay/reverb return level from start to end (1 = as mixed)
+  intensity: [number, number]; // Drives hat fills and arps, 0.0 to 1.0
+}
+
+export interface Arrangement {
+  sections: ArrangementSection[];
+  totalBars: number;
+}
+
+export const TRACK_TAIL_SECONDS = 4; // Fade after the last bar so reverb and delay ring out
+
+// Automation shape of each section kind
+const SECTION_SHAPES: Record<SectionKind, Pick<ArrangementSection, 'filter' | 'fx' | 'intensity'>> = {
+  intro: { filter: [0.45, 0.7], fx: [1.2, 1], intensity: [0.1, 0.3] },
+  build: { filter: [0.5, 1], fx: [0.8, 1.5], intensity: [0.3, 0.9] }, // Filter sweep up into the drop
+  drop: { filter: [1, 1], fx: [1, 1], intensity: [1, 1] },
+  breakdown: { filter: [0.6, 0.5], fx: [1.5, 1.5], intensity: [0.4, 0.4] }, // Washed out
+  outro: { filter: [1, 0.4], fx: [1, 1.5], intensity: [0.5, 0.1] }
+};
+
+interface SectionPlan {
+  kind: SectionKind;
+  bars: number[]; // Candidate lengths, multiples of the 4-bar chord cycle
+  layers: ArrangementLayer[];
+}
+
+const DRUMS: ArrangementLayer[] = ['kick', 'snare', 'hat'];
+
+// --- STYLE TEMPLATES ---
+// Club styles build from the kick; ambient and orchestral styles grow from the harmony.
+const STYLE_PLANS: Record<MusicStyle, SectionPlan[]> = {
+  techno: [
+    { kind: 'intro', bars: [8, 16], layers: ['kick', 'hat'] },
+    { kind: 'build', bars: [8], layers: [...DRUMS, 'bass'] },
+    { kind: 'drop', bars: [16, 32], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [8, 16], layers: ['chords', 'lead'] },
+    { kind: 'build', bars: [4, 8], layers: [...DRUMS, 'bass', 'chords'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [8], layers: ['kick', 'hat', 'bass'] }
+  ],
+  industrial: [
+    { kind: 'intro', bars: [8], layers: ['kick'] },
+    { kind: 'build', bars: [8], layers: DRUMS },
+    { kind: 'drop', bars: [16, 24], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [4, 8], layers: ['bass', 'chords'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [4], layers: ['kick', 'snare'] }
+  ],
+  house: [
+    { kind: 'intro', bars: [8], layers: ['kick', 'hat'] },
+    { kind: 'build', bars: [8], layers: ['kick', 'hat', 'bass', 'chords'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [8], layers: ['bass', 'chords', 'lead'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [8], layers: ['kick', 'hat', 'chords'] }
+  ],
+  ambient: [
+    { kind: 'intro', bars: [8], layers: ['chords'] },
+    { kind: 'build', bars: [8], layers: ['chords', 'lead'] },
+    { kind: 'drop', bars: [16], layers: ['hat', 'bass', 'chords', 'lead'] },
+    { kind: 'breakdown', bars: [8], layers: ['chords'] },
+    { kind: 'outro', bars: [8], layers: ['chords', 'lead'] }
+  ],
+  symphony: [
+    { kind: 'intro', bars: [4], layers: ['chords'] },
+    { kind: 'build', bars: [8], layers: ['kick', 'bass', 'chords'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [8], layers: ['chords', 'lead'] },
+    { kind: 'drop', bars: [8], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [4], layers: ['kick', 'chords'] }
+  ],
+  easy_listening: [
+    { kind: 'intro', bars: [4], layers: ['hat', 'chords'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [8], layers: ['bass', 'chords', 'lead'] },
+    { kind: 'drop', bars: [16], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [4], layers: ['chords', 'lead'] }
+  ],
+  glitch: [
+    { kind: 'intro', bars: [4], layers: ['hat', 'lead'] },
+    { kind: 'build', bars: [4], layers: DRUMS },
+    { kind: 'drop', bars: [8, 16], layers: ALL_LAYERS },
+    { kind: 'breakdown', bars: [4], layers: ['bass', 'lead'] },
+    { kind: 'build', bars: [4], layers: [...DRUMS, 'lead'] },
+    { kind: 'drop', bars: [8], layers: ALL_LAYERS },
+    { kind: 'outro', bars: [4], layers: ['hat'] }
+  ]
+};
+
+// Plans a finite track for a style. Higher complexity favours the longer section options.
+export const planArrangement = (style: MusicStyle, complexity: number, rng: Rng): Arrangement => {
+  const plan = STYLE_PLANS[style] ?? STYLE_PLANS.techno;
+  let startBar = 0;
+
+  const sections = plan.map(({ kind, bars: options, layers }) => {
+    const pick = Math.min(options.length - 1, Math.floor((rng() * 0.5 + complexity * 0.5) * options.length));
+    const bars = options[pick];
+    const shape = SECTION_SHAPES[kind];
+    const section: ArrangementSection = {
+      kind,
+      startBar,
+      bars,
+      layers: [...layers],
+      filter: [...shape.filter],
+      fx: [...shape.fx],
+      intensity: [...shape.intensity]
+    };
+    startBar += bars;
+    return section;
+  });
+
+  return { sections, totalBars: startBar };
+};
+
+export const findSection = (arrangement: Arrangement, bar: number): ArrangementSection | null =>
+  arrangement.sections.find(section => bar >= section.startBar && bar < section.startBar + section.bars) ?? null;
+
+// Linear position inside a section's automation ramp, 0 at its first bar to 1 at its end
+export const interpolateSection = (range: [number, number], section: ArrangementSection, barOffset: number) => {
+  const progress = Math.max(0, Math.min(1, barOffset / section.bars));
+  return range[0] + (range[1] - range[0]) * progress;
+};
@@ -1,16 +1,23 @@
 import { SonicParameters, HandGestures } from "../types";
+import { createRng, deriveSeed, randomSeed, Rng } from "./random";
+import { SchedulerClock } from "./schedulerClock";
+import { NOISE_SECONDS, renderNoise, renderPitchDrop, renderPluck } from "./oneShots";
+import { fadeOutParam, STEAL_FADE, VoiceLimiter } from "./voiceLimiter";
+import { KitSlot, SampleKitLibrary } from "./sampleKits";
+import { EvolvedLanes, evolveSection, getVariationAmount } from "./patternEvolution";
+import { HOME_KEY, KeyChange, planModulation } from "./modulation";
+import { Arrangement, ArrangementLayer, findSection, interpolateSection, planArrangement, TRACK_TAIL_SECONDS } from "./arrangement";
+import { DEFAULT_SIDECHAIN, scheduleDuck, SidechainSettings } from "./sidechain";
+import { getQuartersPerBar, Meter, meterFor, StepPosition } from "./meter";
+import { cloneGroove, fitGroove, getDefaultGroove, getGrooveAccent, getGrooveOffset, GrooveTemplate } from "./groove";
+import { AutomationMode, AutomationPoint, getPointsInRange, overdubPoint } from "./automation";
+import { createMasterLimiter, dbToGain, isMasterSectionLoaded, loadMasterSection, LoudnessReading, nextAutoGain } from "./masterSection";
+import { buildWavetable, createBufferSource, createFmSource, createOscillatorSource, FM_PATCHES, FmPatchId, SynthSource } from "./synthEngines";
+import { DEFAULT_SCALES, SCALE_LIBRARY, Tuning } from "./tuning";
+import { ChordVoicing, DEFAULT_CHORD_RHYTHMS, getChordHits, getChordShape, voiceChord } from "./chordVoicing";
+import { ARP_PANS, createVoicePanner, DEFAULT_STEREO, getChordPan, HAT_PANS, PingPongDelay, placeInField, StereoSettings } from "./stereo";
 
 // --- MUSIC THEORY CONSTANTS ---
-const SCALES = {
-  minor: [0, 2, 3, 5, 7, 8, 10], // Natural Minor
-  major: [0, 2, 4, 5, 7, 9, 11], // Major
-  phrygian: [0, 1, 3, 5, 7, 8, 10], // Dark, Techno
-  dorian: [0, 2, 3, 5, 7, 9, 10],   // Groovy, House
-  pentatonic: [0, 3, 5, 7, 10],      // Neutral, Ambient
-  harmonic_minor: [0, 2, 3, 5, 7, 8, 11], // Classical, Dramatic
-  lydian: [0, 2, 4, 6, 7, 9, 11] // Dreamy
-};
-
 // Chord Pools: Variations for different sections (A: Main, B: Tension/Bridge)
 // Each progression is array of 4 scale degrees relative to root
 const CHORD_POOLS = {
@@ -44,33 +51,210 @@ const CHORD_POOLS = {
   }
 };
 
+export type InstrumentVoice = 'kick' | 'timpani' | 'snare' | 'shaker' | 'hat' | 'bass' | 'chord' | 'lead';
+export type SynthVoiceType = 'lead' | 'pad' | 'pluck' | 'strings' | 'woodwind' | 'epiano';
+
+// A single triggered note, as decided by the scheduler. Audio, MIDI export and
+// any other listeners all consume the same stream.
+export interface NoteEvent {
+  voice: InstrumentVoice;
+  time: number; // Context time in seconds (0 = song start when rendering offline)
+  duration: number; // Seconds (decay for drums)
+  velocity: number; // 0.0 to 1.0
+  freq?: number; // Pitched voices only
+  synthType?: SynthVoiceType;
+  pan?: number; // -1 (left) to 1 (right); absent = centred
+}
+
+// --- PATTERNS ---
+// One bar of 16ths per lane, as long as the meter's bar. Seeded from the image analysis, then editable.
+// A lane may be given its own length for polymeter: lanes are read at (16ths since start) % lane length.
+export interface PatternModel {
+  kick: boolean[];
+  snare: boolean[];
+  hat: boolean[]; // Base hats; 16th fills are still added by intensity and pinch
+  bass: (number | null)[]; // Scale degree, 0 follows the current chord root
+  melody: (number | null)[]; // Scale degree
+}
+
+const clonePattern = (pattern: PatternModel): PatternModel => ({
+  kick: [...pattern.kick],
+  snare: [...pattern.snare],
+  hat: [...pattern.hat],
+  bass: [...pattern.bass],
+  melody: [...pattern.melody]
+});
+
+// Everything generateComposition() decides, so a song can be saved and restored exactly
+export interface CompositionSnapshot {
+  scale: number[]; // Semitones above the tonic, fractional for microtonal tunings
+  period?: number; // Semitones the scale repeats at; 12 when absent
+  form: number[]; // 0 = A section, 1 = B section
+  sections: number[][]; // Chord progressions (scale degrees) per section
+  keys: KeyChange[]; // Key of each form slot
+  pattern: PatternModel;
+}
+
+// --- MIXER ---
+export type MixerBusId = 'drums' | 'bass' | 'chords' | 'lead';
+
+export const MIXER_BUSES: MixerBusId[] = ['drums', 'bass', 'chords', 'lead'];
+
+export interface BusSettings {
+  volume: number; // 0.0 to 1.5
+  pan: number; // -1 (L) to 1 (R)
+  mute: boolean;
+  solo: boolean;
+  delaySend: number; // 0.0 to 1.0
+  reverbSend: number; // 0.0 to 1.0
+}
+
+const VOICE_BUSES: Record<InstrumentVoice, MixerBusId> = {
+  kick: 'drums',
+  timpani: 'drums',
+  snare: 'drums',
+  shaker: 'drums',
+  hat: 'drums',
+  bass: 'bass',
+  chord: 'chords',
+  lead: 'lead'
+};
+
+// Sample kit slot that replaces each synthesized drum voice
+const VOICE_KIT_SLOTS: Partial<Record<InstrumentVoice, KitSlot>> = {
+  kick: 'kick',
+  timpani: 'timpani',
+  snare: 'snare',
+  shaker: 'perc',
+  hat: 'hat'
+};
+
+// Arrangement layer that gates each voice
+const VOICE_LAYERS: Record<InstrumentVoice, ArrangementLayer> = {
+  kick: 'kick',
+  timpani: 'kick',
+  snare: 'snare',
+  shaker: 'snare',
+  hat: 'hat',
+  bass: 'bass',
+  chord: 'chords',
+  lead: 'lead'
+};
+
+// Buses that pump against the kick
+const SIDECHAIN_BUSES: MixerBusId[] = ['bass', 'chords'];
+
+// Master lowpass range for arrangement filter automation
+const ARRANGE_FILTER_MIN = 200;
+const ARRANGE_FILTER_MAX = 20000;
+
+// Which buses run through the darkness drive and the hand-controlled filter
+const BUS_INSERTS: Record<MixerBusId, { drive: boolean; filter: boolean }> = {
+  drums: { drive: false, filter: false },
+  bass: { drive: true, filter: true },
+  chords: { drive: false, filter: true },
+  lead: { drive: true, filter: true }
+};
+
+interface MixerBusNodes {
+  input: AudioNode; // Through the bus inserts
+  fader: GainNode; // Also the entry point for voices that skip the inserts (pads, strings)
+  panner: StereoPannerNode;
+  delaySend: GainNode;
+  reverbSend: GainNode;
+  drive: WaveShaperNode | null;
+  filter: BiquadFilterNode | null;
+}
+
+// Transport messages for external sync (e.g. MIDI clock at 24 PPQN)
+export interface ClockEvent {
+  type: 'start' | 'stop' | 'tick';
+  time: number; // Context time in seconds
+}
+
+// An external tempo/phase reference: quarter-note `beat` falls on context `time`
+export interface ClockLock {
+  bpm: number;
+  beat: number;
+  time: number; // Context time in seconds
+}
+
+export interface OfflineRenderOptions {
+  bars?: number; // Defaults to one pass through the song form
+  sampleRate?: number;
+  tailSeconds?: number; // Extra time rendered after the last bar for reverb/delay decay
+}
+
+// Polyphony caps; the oldest overlapping voice is stolen beyond these
+const MAX_SYNTH_VOICES = 16;
+const MAX_BASS_VOICES = 4;
+
+// Rendered pluck buffers kept per pitch; least recently used beyond this are dropped
+const MAX_PLUCK_BUFFERS = 32;
+
 export class AudioEngine {
-  private ctx: AudioContext | null = null;
+  private ctx: BaseAudioContext | null = null;
+  private isOffline: boolean = false;
   private isPlaying: boolean = false;
   private nextNoteTime: number = 0;
   private current16thNote: number = 0;
   private globalBar: number = 0; // Total bars played
-  private timerID: number | undefined;
+  private tick: number = 0; // Total 16ths played; indexes the pattern lanes
+  private clock: SchedulerClock | null = null;
+  private clockLock: ClockLock | null = null; // Set while following an external clock
+  private beatOffset: number | null = null; // External beat of tick 0; null until aligned to the lock
   
   // UI Sync
-  private onStepCallback: ((step: number) => void) | null = null;
+  private onStepCallback: ((position: StepPosition) => void) | null = null;
+  private stepQueue: { position: StepPosition; time: number }[] = []; // Scheduled steps awaiting display
+  private uiFrameID: number = 0;
+  private noteListeners: ((event: NoteEvent) => void)[] = [];
+  private clockListeners: ((event: ClockEvent) => void)[] = [];
   
   // Nodes
   private masterGain: GainNode | null = null;
-  private filterNode: BiquadFilterNode | null = null;
-  private delayNode: DelayNode | null = null;
-  private delayFeedback: GainNode | null = null;
+  private buses: Partial<Record<MixerBusId, MixerBusNodes>> = {};
+  private mixer: Record<MixerBusId, BusSettings>;
+  private delay: PingPongDelay | null = null;
+  private reverbInput: GainNode | null = null; // All reverb sends land here
   private reverbNode: ConvolverNode | null = null;
+  private reverbFade: GainNode | null = null; // Per-convolver crossfade gain
   private reverbGain: GainNode | null = null;
-  private distortionNode: WaveShaperNode | null = null;
+  private autoGainNode: GainNode | null = null; // Loudness leveling ahead of the dynamics
   private compressorNode: DynamicsCompressorNode | null = null;
+  private limiterNode: AudioWorkletNode | null = null; // Lookahead brickwall + loudness meter, once loaded
+  private masterOutput: GainNode | null = null; // Last node before the speakers; analysers tap here
+  private sidechainGain: GainNode | null = null; // Ducked buses sum here before the master
+  private arrangeFilter: BiquadFilterNode | null = null; // Section filter sweeps on the master
+  private arrangeFx: GainNode | null = null; // Section level of the delay/reverb returns
+  private arrangeFade: GainNode | null = null; // End-of-track fade
+
+  // Shared Instrument Resources (rebuilt with the graph)
+  private noiseBuffer: AudioBuffer | null = null;
+  private oneShots: Map<string, AudioBuffer> = new Map();
+  private plucks: Map<string, AudioBuffer> = new Map(); // In least- to most-recently used order
+  private noiseFilter: BiquadFilterNode | null = null; // Highpass shared by hats, snares and shakers
+  private vibratoGain: GainNode | null = null; // One 5Hz LFO feeds every vibrato voice
+  private wavetable: PeriodicWave | null = null; // Built from wavetableColors on first use
+  private wavetableColors: string[] = [];
+  private kits: SampleKitLibrary | null = null; // Per-style drum samples, synth voices when a slot is empty
+  private synthVoices: VoiceLimiter = new VoiceLimiter(MAX_SYNTH_VOICES);
+  private bassVoices: VoiceLimiter = new VoiceLimiter(MAX_BASS_VOICES);
   
   // Params
   private params: SonicParameters;
+  private seed: number;
+  private compositionRng: Rng; // Patterns and progressions
+  private performanceRng: Rng; // Per-note humanization, reset on every start
+  private noiseRng: Rng; // Noise read offsets, kept apart so note decisions don't depend on audio
+  private evolutionRng: Rng; // Section-to-section melody and bass variation
+  private grooveRng: Rng; // Humanized timing
   private currentGestures: HandGestures = { 
       x: 0.5, y: 0.5, isPinching: false, isFist: false, isPalmOpen: true, isVisible: false 
   };
 
+  private reverbSize: number = 3.0; // s
+
   private lookahead: number = 25.0; // ms
   private scheduleAheadTime: number = 0.1; // s
 
@@ -79,39 +263,154 @@ export class AudioEngine {
   private resonance: number = 0;
 
   // Music Theory & Structure State
-  private scale: number[] = SCALES.minor;
+  private scale: number[] = SCALE_LIBRARY.minor.steps;
+  private period: number = 12; // Semitones per repeat of the scale
+  private customTuning: Tuning | null = null; // Imported Scala tuning, used when params.scale is 'custom'
   
   // Song Structure
   private form: number[] = []; // e.g. [0, 0, 1, 0] where 0=A section, 1=B section
   private sections: number[][] = []; // [ [progA1], [progB1] ]
   private activeSectionIdx: number = 0; // 0 or 1 usually
+  private keys: KeyChange[] = []; // Per form slot, see planModulation()
   private currentChordSequence: number[] = [0, 0, 0, 0];
   
   // Patterns
-  private melodyPattern: (number | null)[] = [];
-  private bassPattern: (number | null)[] = [];
+  private pattern: PatternModel = {
+      kick: [], snare: [], hat: [], bass: [], melody: []
+  };
+  private pendingPattern: PatternModel | null = null; // Swapped in on the next bar
+  private sectionLanes: EvolvedLanes[][] = []; // Latest 4-bar variation per section (A/B)
+  private evolvedBars: EvolvedLanes[] | null = null; // Bass/melody for the section now playing; null = as written
+  private voicing: ChordVoicing | null = null; // Last chord struck, so the next one can move the least
   
+  // Arrangement
+  private arrangement: Arrangement = { sections: [], totalBars: 0 };
+  private arrangementEnabled: boolean = true; // false = loop the form forever
+  private trackEndTime: number | null = null; // Context time the last bar ended, once reached
+  private onEndedCallback: (() => void) | null = null;
+
+  // Sidechain
+  private sidechain: SidechainSettings;
+
+  // Stereo
+  private stereo: StereoSettings = { ...DEFAULT_STEREO };
+
+  // Master Section
+  private autoGainEnabled: boolean = false;
+  private autoGainDb: number = 0;
+  private onLoudnessCallback: ((reading: LoudnessReading) => void) | null = null;
+
+  // Gesture Automation
+  private automation: AutomationPoint[] = []; // Sorted by tick
+  private automationMode: AutomationMode = 'off';
+  private overdubTick: number | null = null; // Last recorded tick while the hand is in view
+
+  // Groove
+  private groove: GrooveTemplate;
+  private stepAccent: number = 1; // Accent of the step being scheduled, applied in trigger()
+
   // Dynamic Flow State
   private flowLFO: number = 0; // 0 to 1, oscillates over time
   private intensity: number = 0; // Builds up over time
 
   constructor(initialParams: SonicParameters) {
     this.params = initialParams;
+    this.seed = initialParams.seed ?? randomSeed();
+    this.compositionRng = createRng(deriveSeed(this.seed, 0));
+    this.performanceRng = createRng(deriveSeed(this.seed, 1));
+    this.noiseRng = createRng(deriveSeed(this.seed, 3));
+    this.evolutionRng = createRng(deriveSeed(this.seed, 5));
+    this.grooveRng = createRng(deriveSeed(this.seed, 6));
+    this.mixer = this.createDefaultMixer();
+    this.groove = this.getDefaultGroove();
+    this.sidechain = this.getDefaultSidechain();
     this.generateComposition();
   }
 
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Regenerates the composition from a new seed
+  public reseed(seed: number) {
+    this.seed = seed >>> 0;
+    this.params = { ...this.params, seed: this.seed };
+    this.resetPerformanceRng();
+    this.regenerateComposition();
+    if (this.ctx) {
+      this.crossfadeReverb();
+      this.noiseBuffer = renderNoise(this.ctx, createRng(deriveSeed(this.seed, 4)));
+    }
+  }
+
+  public getParams(): SonicParameters {
+    return { ...this.params, seed: this.seed };
+  }
+
+  // Live parameter edits. Everything is applied in place so playback keeps running.
+  public setParams(update: Partial<SonicParameters>) {
+    const prev = this.params;
+    this.params = { ...prev, ...update, seed: this.seed };
+
+    if (update.seed !== undefined && (update.seed >>> 0) !== this.seed) {
+      this.reseed(update.seed);
+    } else if (this.params.style !== prev.style || this.params.complexity !== prev.complexity || this.params.timeSignature !== prev.timeSignature) {
+      this.regenerateComposition();
+    } else if (this.params.scale !== prev.scale) {
+      this.applyTuning(); // Re-tunes the song without touching patterns or edits
+    }
+    if (this.params.style !== prev.style) {
+      this.groove = this.getDefaultGroove();
+      this.sidechain = this.getDefaultSidechain();
+    } else if (this.params.timeSignature !== prev.timeSignature) {
+      this.groove = fitGroove(this.groove, this.params.style, this.getMeter());
+    }
+
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+
+    if (this.params.darkness !== prev.darkness || this.params.style !== prev.style) {
+      const curve = this.makeDistortionCurve(this.getDistortionAmount());
+      MIXER_BUSES.forEach(id => {
+        const drive = this.buses[id]?.drive;
+        if (drive) drive.curve = curve;
+      });
+    }
+    if (this.params.bpm !== prev.bpm || this.params.style !== prev.style) {
+      this.delay!.setTime(this.getDelayTime(), now);
+    }
+    if (this.params.space !== prev.space || this.params.style !== prev.style) {
+      if (!this.currentGestures.isFist) {
+        this.reverbGain!.gain.setTargetAtTime(this.getReverbLevel(), now, 0.5);
+      }
+      if (this.getReverbSize() !== this.reverbSize) this.crossfadeReverb();
+    }
+  }
+
+  // Same seed + same params = same composition, regardless of how often this runs
+  private regenerateComposition() {
+    this.compositionRng = createRng(deriveSeed(this.seed, 0));
+    this.generateComposition();
+    this.currentChordSequence = this.sections[this.activeSectionIdx] ?? this.sections[0];
+  }
+
+  private resetPerformanceRng() {
+    this.performanceRng = createRng(deriveSeed(this.seed, 1));
+    this.noiseRng = createRng(deriveSeed(this.seed, 3));
+    this.evolutionRng = createRng(deriveSeed(this.seed, 5));
+    this.grooveRng = createRng(deriveSeed(this.seed, 6));
+    this.sectionLanes = [];
+    this.evolvedBars = null;
+    this.voicing = null;
+  }
+
   // --- COMPOSITION GENERATOR ---
   private generateComposition() {
       const styleKey = this.params.style as keyof typeof CHORD_POOLS;
       const pool = CHORD_POOLS[styleKey] || CHORD_POOLS.techno;
 
       // 1. Select Scale
-      if (this.params.style === 'house') this.scale = SCALES.dorian;
-      else if (this.params.style === 'techno') this.scale = SCALES.phrygian;
-      else if (this.params.style === 'easy_listening') this.scale = SCALES.major;
-      else if (this.params.style === 'symphony') this.scale = SCALES.harmonic_minor;
-      else if (this.params.style === 'ambient') this.scale = SCALES.lydian;
-      else this.scale = SCALES.minor;
+      this.applyTuning();
 
       // 2. Generate Song Structure (Form) based on Complexity
       // High complexity = more changes (A B A C). Low complexity = A A A A.
@@ -127,7 +426,7 @@ export class AudioEngine {
       }
 
       // 3. Pick specific progressions for A and B sections from the Pool
-      const pickProg = (arr: number[][]) => arr[Math.floor(Math.random() * arr.length)];
+      const pickProg = (arr: number[][]) => arr[Math.floor(this.compositionRng() * arr.length)];
       
       this.sections = [
           pickProg(pool.A), // Section 0 (A)
@@ -137,106 +436,579 @@ export class AudioEngine {
       // Initialize first sequence
       this.currentChordSequence = this.sections[0];
 
-      // 4. Generate Melody Pattern (16 steps)
-      this.melodyPattern = new Array(16).fill(null);
+      // 4. Generate Melody Pattern (one bar of the meter)
+      const meter = this.getMeter();
+      const melody: (number | null)[] = new Array(meter.stepsPerBar).fill(null);
       const density = this.params.complexity; 
       
-      for (let i = 0; i < 16; i++) {
-          const isStrongBeat = i % 4 === 0;
+      for (let i = 0; i < meter.stepsPerBar; i++) {
+          const isStrongBeat = meter.beats.includes(i);
           let chance = density * 0.4;
           if (isStrongBeat) chance += 0.3;
           
-          if (Math.random() < chance) {
+          if (this.compositionRng() < chance) {
               const range = this.params.style === 'techno' ? 5 : 12;
-              const degree = Math.floor(Math.random() * range) % 7; // Keep within scale
-              this.melodyPattern[i] = degree;
+              const degree = Math.floor(this.compositionRng() * range) % this.scale.length; // Keep within one octave of the scale
+              melody[i] = degree;
           }
       }
 
       // 5. Generate Bass Pattern
-      this.bassPattern = new Array(16).fill(null);
-      for(let i=0; i<16; i++) {
+      const bass: (number | null)[] = new Array(meter.stepsPerBar).fill(null);
+      for(let i=0; i<meter.stepsPerBar; i++) {
           if (this.params.style === 'techno' && (i % 2 !== 0)) { 
-              this.bassPattern[i] = 0; // Offbeat bass
+              bass[i] = 0; // Offbeat bass
           } else if (this.params.style === 'house' && (i === 0 || i === 10 || i === 14)) {
-              this.bassPattern[i] = 0;
-          } else if (Math.random() < 0.25) {
-              this.bassPattern[i] = 0;
+              bass[i] = 0;
+          } else if (this.compositionRng() < 0.25) {
+              bass[i] = 0;
           }
       }
-      if (this.params.style !== 'ambient') this.bassPattern[0] = 0;
+      if (this.params.style !== 'ambient') bass[0] = 0;
+
+      // 6. Drum Placements
+      const steps = Array.from({ length: meter.stepsPerBar }, (_, i) => i);
+      const style = this.params.style;
+      const kick = steps.map(i => style === 'symphony' ? i === 0 : meter.beats.includes(i)); // Timpani only on the downbeat
+      const hasBackbeat = style === 'techno' || style === 'industrial' || style === 'easy_listening';
+      const snare = steps.map(i => hasBackbeat && meter.backbeats.includes(i));
+      const hat = steps.map(i => style !== 'symphony' && i % 2 === 0);
+
+      this.pattern = { kick, snare, hat, bass, melody };
+      this.pendingPattern = null;
+
+      // 7. Plan Key Changes across the form
+      this.keys = planModulation(style, this.form, this.scale, this.params.complexity, this.compositionRng);
+
+      // 8. Plan the Arrangement (intro to outro)
+      this.arrangement = planArrangement(style, this.params.complexity, this.compositionRng);
+  }
+
+  // --- TUNING ---
+  // The analysis or the user may pick a scale; otherwise the style decides
+  public getTuning(): Tuning {
+      const scale = this.params.scale;
+      if (scale === 'custom' && this.customTuning) return this.customTuning;
+      return (scale && scale !== 'custom' && SCALE_LIBRARY[scale]) || SCALE_LIBRARY[DEFAULT_SCALES[this.params.style] ?? 'minor'];
+  }
+
+  private applyTuning() {
+      const tuning = this.getTuning();
+      this.scale = [...tuning.steps];
+      this.period = tuning.period;
+  }
+
+  public getCustomTuning(): Tuning | null {
+      return this.customTuning;
+  }
+
+  public setCustomTuning(tuning: Tuning | null) {
+      this.customTuning = tuning ? { ...tuning, steps: [...tuning.steps] } : null;
+      if (this.params.scale === 'custom') this.applyTuning();
+  }
+
+  public getComposition(): CompositionSnapshot {
+      return {
+          scale: [...this.scale],
+          period: this.period,
+          form: [...this.form],
+          sections: this.sections.map(prog => [...prog]),
+          keys: this.keys.map(key => ({ ...key })),
+          pattern: this.getPattern()
+      };
+  }
+
+  public loadComposition(composition: CompositionSnapshot) {
+      this.scale = [...composition.scale];
+      this.period = composition.period ?? 12;
+      this.form = [...composition.form];
+      this.sections = composition.sections.map(prog => [...prog]);
+      this.keys = composition.keys.map(key => ({ ...key }));
+      this.activeSectionIdx = this.form[0] ?? 0;
+      this.currentChordSequence = this.sections[this.activeSectionIdx] ?? this.sections[0];
+      this.pattern = clonePattern(composition.pattern);
+      this.pendingPattern = null;
+  }
+
+  // --- ARRANGEMENT ---
+
+  public getArrangement(): Arrangement {
+      return {
+          sections: this.arrangement.sections.map(section => ({ ...section, layers: [...section.layers] })),
+          totalBars: this.arrangement.totalBars
+      };
+  }
+
+  public isArrangementEnabled(): boolean {
+      return this.arrangementEnabled;
+  }
+
+  // Off = loop the form until stopped, with every layer playing
+  public setArrangementEnabled(enabled: boolean) {
+      this.arrangementEnabled = enabled;
+  }
+
+  // Called once the track has ended and its tail has faded out
+  public setOnEndedCallback(callback: (() => void) | null) {
+      this.onEndedCallback = callback;
+  }
+
+  private isLayerActive(layer: ArrangementLayer): boolean {
+      if (!this.arrangementEnabled) return true;
+      const section = findSection(this.arrangement, this.globalBar);
+      return section ? section.layers.includes(layer) : false;
+  }
+
+  private getIntensity(): number {
+      const section = this.arrangementEnabled ? findSection(this.arrangement, this.globalBar) : null;
+      if (!section) return Math.min(1.0, this.globalBar / 64); // Full intensity after 64 bars
+      return interpolateSection(section.intensity, section, this.globalBar - section.startBar);
+  }
+
+  // Ramps the master filter and FX returns across the bar starting at `time`
+  private automateBar(time: number) {
+      if (!this.arrangeFilter || !this.arrangeFx) return;
+      const section = this.arrangementEnabled ? findSection(this.arrangement, this.globalBar) : null;
+      const end = time + this.getSecondsPerBar();
+      const offset = section ? this.globalBar - section.startBar : 0;
+
+      const cutoff = (barOffset: number) => {
+          const amount = section ? interpolateSection(section.filter, section, barOffset) : 1;
+          return ARRANGE_FILTER_MIN * Math.pow(ARRANGE_FILTER_MAX / ARRANGE_FILTER_MIN, amount);
+      };
+      const fx = (barOffset: number) => section ? interpolateSection(section.fx, section, barOffset) : 1;
+
+      this.arrangeFilter.frequency.setValueAtTime(cutoff(offset), time);
+      this.arrangeFilter.frequency.exponentialRampToValueAtTime(cutoff(offset + 1), end);
+      this.arrangeFx.gain.setValueAtTime(fx(offset), time);
+      this.arrangeFx.gain.linearRampToValueAtTime(fx(offset + 1), end);
+  }
+
+  // Stops scheduling and fades the tail out from the end of the last bar
+  private endTrack(time: number) {
+      this.trackEndTime = time;
+      if (!this.arrangeFade) return;
+      this.arrangeFade.gain.setValueAtTime(1, time);
+      this.arrangeFade.gain.linearRampToValueAtTime(0, time + TRACK_TAIL_SECONDS);
+  }
+
+  // Clears leftover ramps so the next run starts open and at full level
+  private resetAutomation() {
+      this.trackEndTime = null;
+      if (!this.ctx) return;
+      const now = this.ctx.currentTime;
+      const reset = (param: AudioParam | undefined, value: number) => {
+          if (!param) return;
+          param.cancelScheduledValues(now);
+          param.setValueAtTime(value, now);
+      };
+      reset(this.arrangeFilter?.frequency, ARRANGE_FILTER_MAX);
+      reset(this.arrangeFx?.gain, 1);
+      reset(this.arrangeFade?.gain, 1);
+      reset(this.sidechainGain?.gain, 1);
+  }
+
+  // --- METER ---
+
+  public getMeter(): Meter {
+      return meterFor(this.params.timeSignature);
+  }
+
+  // Current value of a lane; lanes shorter or longer than the bar cycle on their own
+  private laneValue<T>(lane: T[]): T | undefined {
+      return lane.length ? lane[this.tick % lane.length] : undefined;
+  }
+
+  // --- GROOVE ---
+
+  private getDefaultGroove(): GrooveTemplate {
+      return getDefaultGroove(this.params.style, this.getMeter());
+  }
+
+  public getGroove(): GrooveTemplate {
+      return cloneGroove(this.groove);
   }
 
-  public setOnStepCallback(callback: (step: number) => void) {
+  // Takes effect from the next scheduled step
+  public setGroove(groove: GrooveTemplate) {
+      this.groove = fitGroove(groove, this.params.style, this.getMeter());
+  }
+
+  public getPattern(): PatternModel {
+      return clonePattern(this.pendingPattern ?? this.pattern);
+  }
+
+  // Edits land on the next bar so playback never stutters mid-pattern
+  public setPattern(pattern: PatternModel) {
+      this.pendingPattern = clonePattern(pattern);
+      if (!this.isPlaying) this.applyPendingPattern();
+  }
+
+  private applyPendingPattern() {
+      if (!this.pendingPattern) return;
+      this.pattern = this.pendingPattern;
+      this.pendingPattern = null;
+      // Edits restart the evolution from what was written
+      this.sectionLanes = [];
+      this.evolvedBars = null;
+  }
+
+  public setOnStepCallback(callback: (position: StepPosition) => void) {
     this.onStepCallback = callback;
   }
 
+  // Returns an unsubscribe function
+  public addNoteListener(listener: (event: NoteEvent) => void): () => void {
+    this.noteListeners.push(listener);
+    return () => {
+      this.noteListeners = this.noteListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public addClockListener(listener: (event: ClockEvent) => void): () => void {
+    this.clockListeners.push(listener);
+    return () => {
+      this.clockListeners = this.clockListeners.filter(l => l !== listener);
+    };
+  }
+
+  // --- EXTERNAL CLOCK ---
+
+  // Follows an external tempo/phase source; null returns to the engine's own tempo.
+  // Bars are aligned to the source's bar boundaries (multiples of this meter's quarters per bar).
+  public setClockLock(lock: ClockLock | null) {
+    const previous = this.clockLock;
+    this.clockLock = lock;
+    if (!lock) {
+      this.beatOffset = null;
+      return;
+    }
+
+    // The source restarted or jumped: re-align on its next bar
+    if (previous && Math.abs(this.getExternalBeat(lock.time, previous) - lock.beat) > 0.25) {
+      this.beatOffset = null;
+    }
+    if (lock.bpm !== this.params.bpm) this.setParams({ bpm: lock.bpm });
+    if (this.isPlaying && this.beatOffset === null) this.alignToClock();
+  }
+
+  public isFollowingClock(): boolean {
+    return this.clockLock !== null;
+  }
+
+  private getExternalBeat(time: number, lock: ClockLock): number {
+    return lock.beat + (time - lock.time) * lock.bpm / 60;
+  }
+
+  private getExternalTime(beat: number, lock: ClockLock): number {
+    return lock.time + (beat - lock.beat) * 60 / lock.bpm;
+  }
+
+  // Moves the next note onto the external grid, waiting at most one bar
+  private alignToClock() {
+    const lock = this.clockLock!;
+    const quantum = getQuartersPerBar(this.getMeter());
+    const beat = this.tick / 4;
+    this.beatOffset = Math.ceil((this.getExternalBeat(this.nextNoteTime, lock) - beat) / quantum) * quantum;
+    this.nextNoteTime = this.getExternalTime(beat + this.beatOffset, lock);
+  }
+
+  // Maps a context time onto the performance.now() timeline (used by Web MIDI send timestamps)
+  public toPerformanceTime(contextTime: number): number {
+    if (!(this.ctx instanceof AudioContext)) return performance.now();
+    const stamp = this.ctx.getOutputTimestamp();
+    const refContext = stamp.contextTime ?? this.ctx.currentTime;
+    const refPerformance = stamp.performanceTime ?? performance.now();
+    return refPerformance + (contextTime - refContext) * 1000;
+  }
+
+  // Inverse of toPerformanceTime(), for timestamps received from other instances
+  public fromPerformanceTime(performanceTime: number): number {
+    if (!this.ctx) return 0;
+    if (!(this.ctx instanceof AudioContext)) return this.ctx.currentTime;
+    const stamp = this.ctx.getOutputTimestamp();
+    const refContext = stamp.contextTime ?? this.ctx.currentTime;
+    const refPerformance = stamp.performanceTime ?? performance.now();
+    return refContext + (performanceTime - refPerformance) / 1000;
+  }
+
   public init() {
     if (this.ctx) return;
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     this.ctx = new AudioContextClass();
-    
+    this.buildGraph();
+  }
+
+  private buildGraph() {
+    if (!this.ctx) return;
+
     // Master Chain
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = 0.8;
 
+    this.autoGainNode = this.ctx.createGain(); // Unity until the limiter is in place
+
     this.compressorNode = this.ctx.createDynamicsCompressor();
     this.compressorNode.threshold.value = -12;
-    this.compressorNode.ratio.value = 12; // Hard limiter style for Techno
+    this.compressorNode.ratio.value = 12; // Catches the peaks itself until the limiter arrives
     this.compressorNode.attack.value = 0.003;
 
-    // Filter (Hand Control)
-    this.filterNode = this.ctx.createBiquadFilter();
-    this.filterNode.type = 'lowpass';
-    this.filterNode.frequency.value = this.filterCutoff;
-    this.filterNode.Q.value = this.resonance;
-
-    // Global Distortion (Darkness param)
-    this.distortionNode = this.ctx.createWaveShaper();
-    let distAmount = this.params.darkness * 400;
-    if (this.params.style === 'industrial') distAmount *= 2;
-    if (['ambient', 'easy_listening', 'symphony'].includes(this.params.style)) distAmount = 0; 
-    
-    this.distortionNode.curve = this.makeDistortionCurve(distAmount);
-    this.distortionNode.oversample = '4x';
+    this.masterOutput = this.ctx.createGain();
 
     // FX Sends
-    this.delayNode = this.ctx.createDelay();
-    const beatTime = 60 / this.params.bpm;
-    let delayTime = beatTime * 0.75; 
-    if (this.params.style === 'symphony') delayTime = beatTime / 2;
-    this.delayNode.delayTime.value = delayTime;
-    
-    this.delayFeedback = this.ctx.createGain();
-    this.delayFeedback.gain.value = 0.3;
-    this.delayNode.connect(this.delayFeedback);
-    this.delayFeedback.connect(this.delayNode);
+    this.delay = new PingPongDelay(this.ctx, this.getDelayTime(), 0.3);
 
+    this.reverbInput = this.ctx.createGain();
     this.reverbNode = this.ctx.createConvolver();
+    this.reverbFade = this.ctx.createGain();
     this.reverbGain = this.ctx.createGain();
-    this.reverbGain.gain.value = 0.4;
+    this.reverbGain.gain.value = this.getReverbLevel();
     
-    let reverbSize = 3.0;
-    if (this.params.style === 'symphony') reverbSize = 5.0; 
-    if (this.params.style === 'ambient') reverbSize = 8.0; 
-    if (this.params.style === 'techno') reverbSize = 2.0; 
-    this.buildImpulseResponse(reverbSize);
+    this.reverbSize = this.getReverbSize();
+    this.reverbNode.buffer = this.buildImpulseResponse(this.reverbSize);
+
+    this.sidechainGain = this.ctx.createGain();
+    this.sidechainGain.connect(this.masterGain);
 
     // Routing
-    // Synth -> Distortion -> Filter -> Master
-    this.distortionNode.connect(this.filterNode);
-    this.filterNode.connect(this.masterGain);
+    // Voice -> Bus (Distortion -> Filter -> Fader -> Pan) -> [Sidechain] -> Master, with post-fader FX sends
+    MIXER_BUSES.forEach(id => {
+      this.buses[id] = this.createBus(id);
+    });
+    this.applyMixer();
+
+    // Shared Instrument Resources
+    this.noiseBuffer = renderNoise(this.ctx, createRng(deriveSeed(this.seed, 4)));
+    this.oneShots.clear();
+    this.plucks.clear();
+    this.wavetable = null;
+
+    this.noiseFilter = this.ctx.createBiquadFilter();
+    this.noiseFilter.type = 'highpass';
+    this.noiseFilter.frequency.value = 8000;
+    this.noiseFilter.connect(this.buses.drums!.input);
+
+    const vibrato = this.ctx.createOscillator();
+    vibrato.frequency.value = 5;
+    this.vibratoGain = this.ctx.createGain();
+    this.vibratoGain.gain.value = 3;
+    vibrato.connect(this.vibratoGain);
+    vibrato.start();
     
-    // FX Sends (from Filter Output)
-    this.filterNode.connect(this.delayNode);
-    this.filterNode.connect(this.reverbNode);
-    
-    this.delayNode.connect(this.masterGain);
-    this.reverbNode.connect(this.reverbGain);
-    this.reverbGain.connect(this.masterGain);
+    // Arrangement Automation
+    this.arrangeFilter = this.ctx.createBiquadFilter();
+    this.arrangeFilter.type = 'lowpass';
+    this.arrangeFilter.frequency.value = ARRANGE_FILTER_MAX;
+    this.arrangeFx = this.ctx.createGain();
+    this.arrangeFade = this.ctx.createGain();
+
+    this.delay.output.connect(this.arrangeFx);
+    this.reverbInput.connect(this.reverbNode);
+    this.reverbNode.connect(this.reverbFade);
+    this.reverbFade.connect(this.reverbGain);
+    this.reverbGain.connect(this.arrangeFx);
+    this.arrangeFx.connect(this.masterGain);
+
+    this.masterGain.connect(this.arrangeFilter);
+    this.arrangeFilter.connect(this.arrangeFade);
+    this.arrangeFade.connect(this.autoGainNode);
+    this.autoGainNode.connect(this.compressorNode);
+    this.compressorNode.connect(this.masterOutput);
+    this.masterOutput.connect(this.ctx.destination);
+    this.limiterNode = null;
+    this.insertLimiter();
+  }
+
+  // The limiter joins the chain once its worklet is loaded; until then (or for good, where
+  // worklets are unavailable, e.g. plain http on a LAN) the compressor limits on its own
+  // and auto-gain stays at unity
+  private insertLimiter() {
+    const ctx = this.ctx!;
+    const insert = () => {
+      if (this.ctx !== ctx || this.limiterNode) return;
+      this.limiterNode = createMasterLimiter(ctx, !this.isOffline);
+      this.limiterNode.port.onmessage = (e) => this.handleLoudness(e.data);
+      this.compressorNode!.disconnect(this.masterOutput!);
+      this.compressorNode!.connect(this.limiterNode);
+      this.limiterNode.connect(this.masterOutput!);
+      this.compressorNode!.ratio.value = 4; // Glue only; the limiter catches the peaks
+      this.autoGainNode!.gain.value = dbToGain(this.autoGainDb);
+    };
+
+    if (isMasterSectionLoaded(ctx)) {
+      insert();
+    } else {
+      loadMasterSection(ctx).then(insert).catch(err => console.error("Master limiter unavailable:", err));
+    }
+  }
+
+  private createBus(id: MixerBusId): MixerBusNodes {
+    const ctx = this.ctx!;
+    const inserts = BUS_INSERTS[id];
+    const fader = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    const delaySend = ctx.createGain();
+    const reverbSend = ctx.createGain();
+
+    let drive: WaveShaperNode | null = null;
+    let filter: BiquadFilterNode | null = null;
+    let input: AudioNode = fader;
+
+    // Filter (Hand Control)
+    if (inserts.filter) {
+      filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = this.filterCutoff;
+      filter.Q.value = this.resonance;
+      filter.connect(fader);
+      input = filter;
+    }
+
+    // Distortion (Darkness param)
+    if (inserts.drive) {
+      drive = ctx.createWaveShaper();
+      drive.curve = this.makeDistortionCurve(this.getDistortionAmount());
+      drive.oversample = '4x';
+      drive.connect(input);
+      input = drive;
+    }
+
+    fader.connect(panner);
+    panner.connect(SIDECHAIN_BUSES.includes(id) ? this.sidechainGain! : this.masterGain!);
+    panner.connect(delaySend);
+    panner.connect(reverbSend);
+    delaySend.connect(this.delay!.input);
+    reverbSend.connect(this.reverbInput!);
+
+    return { input, fader, panner, delaySend, reverbSend, drive, filter };
+  }
+
+  private createDefaultMixer(): Record<MixerBusId, BusSettings> {
+    const bus = (delaySend: number, reverbSend: number): BusSettings => ({
+      volume: 1.0, pan: 0, mute: false, solo: false, delaySend, reverbSend
+    });
+    return {
+      drums: bus(0, this.params.style === 'symphony' ? 1 : 0), // Timpani sits in the hall
+      bass: bus(1, 1),
+      chords: bus(0, 1),
+      lead: bus(1, 1)
+    };
+  }
+
+  // --- SIDECHAIN ---
+
+  private getDefaultSidechain(): SidechainSettings {
+    return { ...(DEFAULT_SIDECHAIN[this.params.style] ?? DEFAULT_SIDECHAIN.techno) };
+  }
+
+  public getSidechain(): SidechainSettings {
+    return { ...this.sidechain };
+  }
+
+  // Applies from the next scheduled kick
+  public setSidechain(update: Partial<SidechainSettings>) {
+    this.sidechain = { ...this.sidechain, ...update };
+  }
+
+  // Pinching hands the depth to the y axis
+  private duck(time: number) {
+    if (!this.sidechainGain) return;
+    const { isPinching, isVisible, y } = this.currentGestures;
+    const depth = isPinching && isVisible ? y : this.sidechain.depth;
+    scheduleDuck(this.sidechainGain.gain, time, depth, this.sidechain);
+  }
+
+  // --- STEREO ---
+
+  public getStereo(): StereoSettings {
+    return { ...this.stereo };
+  }
+
+  // Applies to notes scheduled from now on
+  public setStereo(update: Partial<StereoSettings>) {
+    this.stereo = { ...this.stereo, ...update };
+  }
+
+  private getPan(pan: number): number {
+    return placeInField(pan, this.params.space, this.currentGestures);
+  }
+
+  // Routes a placed voice through its own panner; centred voices go straight to the destination
+  private voiceOutput(destination: AudioNode, pan: number = 0): AudioNode {
+    if (!pan) return destination;
+    const panner = createVoicePanner(this.ctx!, pan, this.stereo.hrtf);
+    panner.connect(destination);
+    return panner;
+  }
+
+  // --- SAMPLE KITS ---
+
+  public setSampleKits(kits: SampleKitLibrary | null) {
+    this.kits = kits;
+  }
+
+  public getMixerState(): Record<MixerBusId, BusSettings> {
+    const state = {} as Record<MixerBusId, BusSettings>;
+    MIXER_BUSES.forEach(id => { state[id] = { ...this.mixer[id] }; });
+    return state;
+  }
+
+  public setBusSettings(id: MixerBusId, update: Partial<BusSettings>) {
+    this.mixer[id] = { ...this.mixer[id], ...update };
+    this.applyMixer();
+  }
+
+  private applyMixer() {
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    const anySolo = MIXER_BUSES.some(id => this.mixer[id].solo);
+
+    MIXER_BUSES.forEach(id => {
+      const nodes = this.buses[id];
+      if (!nodes) return;
+      const settings = this.mixer[id];
+      const audible = !settings.mute && (!anySolo || settings.solo);
+
+      nodes.fader.gain.setTargetAtTime(audible ? settings.volume : 0, now, 0.02);
+      nodes.panner.pan.setTargetAtTime(settings.pan, now, 0.02);
+      nodes.delaySend.gain.setTargetAtTime(settings.delaySend, now, 0.02);
+      nodes.reverbSend.gain.setTargetAtTime(settings.reverbSend, now, 0.02);
+    });
+  }
+
+  private getFilterNodes(): BiquadFilterNode[] {
+    return MIXER_BUSES
+      .map(id => this.buses[id]?.filter)
+      .filter((node): node is BiquadFilterNode => !!node);
+  }
+
+  // --- PARAMETER MAPPINGS ---
+
+  private getDistortionAmount(): number {
+    let distAmount = this.params.darkness * 400;
+    if (this.params.style === 'industrial') distAmount *= 2;
+    if (['ambient', 'easy_listening', 'symphony'].includes(this.params.style)) distAmount = 0; 
+    return distAmount;
+  }
+
+  private getDelayTime(): number {
+    const beatTime = 60 / this.params.bpm;
+    if (this.params.style === 'symphony') return beatTime / 2;
+    return beatTime * 0.75;
+  }
 
-    this.masterGain.connect(this.compressorNode);
-    this.compressorNode.connect(this.ctx.destination);
+  // Room length scales with space (0.5 = the style's nominal size)
+  private getReverbSize(): number {
+    let size = 3.0;
+    if (this.params.style === 'symphony') size = 5.0; 
+    if (this.params.style === 'ambient') size = 8.0; 
+    if (this.params.style === 'techno') size = 2.0; 
+    return Math.round(size * (0.5 + this.params.space) * 10) / 10;
+  }
+
+  private getReverbLevel(): number {
+    return 0.2 + this.params.space * 0.4;
   }
 
   private makeDistortionCurve(amount: number) {
@@ -251,28 +1023,158 @@ export class AudioEngine {
     return curve;
   }
 
-  private buildImpulseResponse(duration: number) {
-    if (!this.ctx || !this.reverbNode) return;
-    const rate = this.ctx.sampleRate;
-    const length = rate * duration;
+  private buildImpulseResponse(duration: number): AudioBuffer {
+    const ctx = this.ctx!;
+    const rate = ctx.sampleRate;
+    const length = Math.floor(rate * duration);
     const decay = 2.0;
-    const impulse = this.ctx.createBuffer(2, length, rate);
+    const impulse = ctx.createBuffer(2, length, rate);
     const impulseL = impulse.getChannelData(0);
     const impulseR = impulse.getChannelData(1);
+    // Own stream so the room sounds the same for a given seed
+    const rng = createRng(deriveSeed(this.seed, 2));
 
     for (let i = 0; i < length; i++) {
       const n = i < length - 1000 ? i : length - 1000;
       const env = Math.pow(1 - n / length, decay);
-      impulseL[i] = (Math.random() * 2 - 1) * env;
-      impulseR[i] = (Math.random() * 2 - 1) * env;
+      impulseL[i] = (rng() * 2 - 1) * env;
+      impulseR[i] = (rng() * 2 - 1) * env;
+    }
+    return impulse;
+  }
+
+  // Swaps in a freshly built room without cutting off the tail of the old one
+  private crossfadeReverb() {
+    if (!this.ctx || !this.reverbInput || !this.reverbGain) return;
+    const ctx = this.ctx;
+    const now = ctx.currentTime;
+    const oldNode = this.reverbNode;
+    const oldFade = this.reverbFade;
+
+    this.reverbSize = this.getReverbSize();
+    const node = ctx.createConvolver();
+    node.buffer = this.buildImpulseResponse(this.reverbSize);
+    const fade = ctx.createGain();
+    fade.gain.value = 0;
+
+    this.reverbInput.connect(node);
+    node.connect(fade);
+    fade.connect(this.reverbGain);
+    fade.gain.setTargetAtTime(1, now, 0.3);
+
+    this.reverbNode = node;
+    this.reverbFade = fade;
+
+    if (oldNode && oldFade) {
+      oldFade.gain.setTargetAtTime(0, now, 0.3);
+      this.reverbInput.disconnect(oldNode);
+      // Let the old tail ring out before releasing it
+      window.setTimeout(() => {
+        oldNode.disconnect();
+        oldFade.disconnect();
+      }, 3000);
     }
-    this.reverbNode.buffer = impulse;
   }
 
+  // --- MASTER SECTION ---
+
+  public setOnLoudnessCallback(callback: ((reading: LoudnessReading) => void) | null) {
+    this.onLoudnessCallback = callback;
+  }
+
+  public isAutoGainEnabled(): boolean {
+    return this.autoGainEnabled;
+  }
+
+  public getAutoGainDb(): number {
+    return this.autoGainDb;
+  }
+
+  // Off returns the master to unity gain
+  public setAutoGainEnabled(enabled: boolean) {
+    this.autoGainEnabled = enabled;
+    if (!enabled) this.setAutoGainDb(0);
+  }
+
+  private setAutoGainDb(db: number) {
+    this.autoGainDb = db;
+    if (this.ctx && this.autoGainNode && this.limiterNode) {
+      this.autoGainNode.gain.setTargetAtTime(dbToGain(db), this.ctx.currentTime, 0.1);
+    }
+  }
+
+  // Readings arrive every 100ms; auto-gain holds still through the end-of-track fade
+  private handleLoudness(reading: LoudnessReading) {
+    if (this.autoGainEnabled && this.isPlaying && this.trackEndTime === null) {
+      this.setAutoGainDb(nextAutoGain(this.autoGainDb, reading));
+    }
+    if (this.onLoudnessCallback) this.onLoudnessCallback(reading);
+  }
+
+  // --- GESTURE AUTOMATION ---
+
+  public getAutomation(): AutomationPoint[] {
+    return this.automation.map(point => ({ tick: point.tick, gestures: { ...point.gestures } }));
+  }
+
+  public setAutomation(points: AutomationPoint[]) {
+    this.automation = points
+      .map(point => ({ tick: point.tick, gestures: { ...point.gestures } }))
+      .sort((a, b) => a.tick - b.tick);
+    this.overdubTick = null;
+  }
+
+  public getAutomationMode(): AutomationMode {
+    return this.automationMode;
+  }
+
+  // 'play' replays the take; 'record' also replays it, and overdubs wherever the hand is in view
+  public setAutomationMode(mode: AutomationMode) {
+    this.automationMode = mode;
+    this.overdubTick = null;
+  }
+
+  // Live input from the camera or a MIDI controller
   public updateControlParams(gestures: HandGestures) {
-    if (!this.ctx || !this.filterNode || !this.distortionNode) return;
-    
+    if (!this.ctx || !this.masterGain) return;
+
+    if (this.automationMode === 'record' && this.isPlaying) {
+      const wasTouching = this.overdubTick !== null;
+      this.recordGestures(gestures);
+      if (!gestures.isVisible && !wasTouching) return; // The take stays in control
+    } else if (this.automationMode === 'play' && this.automation.length) {
+      return;
+    }
+    this.applyGestures(gestures, this.ctx.currentTime);
+  }
+
+  // Song position of a context time, in (fractional) 16ths since playback started
+  private getTickAt(time: number): number {
+    return this.tick - (this.nextNoteTime - time) / (0.25 * 60.0 / this.params.bpm);
+  }
+
+  // Records while the hand is in view, plus the moment it leaves
+  private recordGestures(gestures: HandGestures) {
+    if (!gestures.isVisible && this.overdubTick === null) return;
+    const tick = Math.round(this.getTickAt(this.ctx!.currentTime) * 1000) / 1000;
+    if (tick < 0) return;
+    overdubPoint(this.automation, { tick, gestures: { ...gestures } }, this.overdubTick ?? tick);
+    this.overdubTick = gestures.isVisible ? tick : null;
+  }
+
+  // Applies the take's points that fall within the step being scheduled
+  private replayAutomation(time: number) {
+    if (this.overdubTick !== null) return; // The live hand has control
+    const secondsPer16th = 0.25 * 60.0 / this.params.bpm;
+    getPointsInRange(this.automation, this.tick, this.tick + 1).forEach(point => {
+      this.applyGestures(point.gestures, time + (point.tick - this.tick) * secondsPer16th);
+    });
+  }
+
+  private applyGestures(gestures: HandGestures, at: number) {
     this.currentGestures = gestures;
+    if (!this.ctx || !this.masterGain) return;
+
     const { x, y, isPinching, isFist, isVisible } = gestures;
 
     if (!isVisible) return;
@@ -281,68 +1183,233 @@ export class AudioEngine {
     const minFreq = 100;
     const maxFreq = 12000;
     // Apply LFO to filter for "breathing" effect
-    const lfoMod = Math.sin(this.ctx.currentTime * 0.5) * 200 * this.params.space;
+    const lfoMod = Math.sin(at * 0.5) * 200 * this.params.space;
     const frequency = Math.max(minFreq, (minFreq * Math.pow(maxFreq / minFreq, x)) + lfoMod);
     
-    this.filterNode.frequency.setTargetAtTime(frequency, this.ctx.currentTime, 0.1);
+    const filters = this.getFilterNodes();
+    filters.forEach(filter => filter.frequency.setTargetAtTime(frequency, at, 0.1));
 
     // Resonance (Y Axis)
-    this.filterNode.Q.setTargetAtTime(y * 15, this.ctx.currentTime, 0.1);
+    filters.forEach(filter => filter.Q.setTargetAtTime(y * 15, at, 0.1));
 
     // Gesture Modes
     if (isFist) {
          // Build-up / Tension
-         this.masterGain!.gain.setTargetAtTime(0.5, this.ctx.currentTime, 0.5); 
-         this.reverbGain?.gain.setTargetAtTime(0.8, this.ctx.currentTime, 0.5); // Wash out
-         this.delayFeedback?.gain.setTargetAtTime(0.8, this.ctx.currentTime, 0.5);
+         this.masterGain.gain.setTargetAtTime(0.5, at, 0.5); 
+         this.reverbGain?.gain.setTargetAtTime(0.8, at, 0.5); // Wash out
+         this.delay?.setFeedback(0.8, at);
     } else {
         // Normal
-        this.masterGain!.gain.setTargetAtTime(0.8, this.ctx.currentTime, 0.5);
-        this.reverbGain?.gain.setTargetAtTime(0.4, this.ctx.currentTime, 0.5);
-        this.delayFeedback?.gain.setTargetAtTime(0.3, this.ctx.currentTime, 0.5);
+        this.masterGain.gain.setTargetAtTime(0.8, at, 0.5);
+        this.reverbGain?.gain.setTargetAtTime(this.getReverbLevel(), at, 0.5);
+        this.delay?.setFeedback(0.3, at);
     }
 
-    if (isPinching && this.filterNode) {
+    if (isPinching) {
        // Quick wobble
-       this.filterNode.frequency.setTargetAtTime(frequency * 1.5, this.ctx.currentTime, 0.05); 
+       filters.forEach(filter => filter.frequency.setTargetAtTime(frequency * 1.5, at, 0.05)); 
     }
   }
 
   public start() {
     if (!this.ctx) this.init();
-    if (this.ctx?.state === 'suspended') {
+    if (this.ctx instanceof AudioContext && this.ctx.state === 'suspended') {
       this.ctx.resume();
     }
     this.isPlaying = true;
+    this.resetPerformanceRng();
     this.current16thNote = 0;
     this.globalBar = 0;
+    this.tick = 0;
+    this.intensity = this.getIntensity();
+    this.resetAutomation();
     this.nextNoteTime = this.ctx!.currentTime + 0.1;
+    this.beatOffset = null;
+    this.overdubTick = null;
+    if (this.clockLock) this.alignToClock();
+    this.limiterNode?.port.postMessage({ type: 'reset' }); // Integrated loudness and peak hold start over
+    this.emitClock({ type: 'start', time: this.nextNoteTime });
+    this.stepQueue = [];
+    this.synthVoices.clear();
+    this.bassVoices.clear();
+
+    if (!this.clock) this.clock = new SchedulerClock(() => this.scheduler(), this.lookahead);
     this.scheduler();
+    this.clock.start();
+
+    window.cancelAnimationFrame(this.uiFrameID);
+    this.uiFrameID = window.requestAnimationFrame(this.drawStep);
   }
 
   public stop() {
+    if (this.isPlaying && this.ctx) {
+      this.emitClock({ type: 'stop', time: this.ctx.currentTime });
+    }
     this.isPlaying = false;
-    window.clearTimeout(this.timerID);
+    this.overdubTick = null;
+    this.clock?.stop();
+    window.cancelAnimationFrame(this.uiFrameID);
+    this.stepQueue = [];
+  }
+
+  // Releases the clock worker and audio device; the engine cannot be restarted afterwards
+  public dispose() {
+    this.stop();
+    this.clock?.dispose();
+    this.clock = null;
+    if (this.ctx instanceof AudioContext) this.ctx.close();
   }
 
   private scheduler() {
     if (!this.ctx || !this.isPlaying) return;
 
-    while (this.nextNoteTime < this.ctx.currentTime + this.scheduleAheadTime) {
+    while (this.trackEndTime === null && this.nextNoteTime < this.ctx.currentTime + this.scheduleAheadTime) {
+      this.scheduleClockTicks(this.nextNoteTime);
+      this.scheduleNote(this.current16thNote, this.nextNoteTime);
+      this.nextNote();
+    }
+
+    if (this.trackEndTime !== null && this.ctx.currentTime >= this.trackEndTime + TRACK_TAIL_SECONDS) {
+      this.stop();
+      if (this.onEndedCallback) this.onEndedCallback();
+    }
+  }
+
+  // Reports the step that is actually audible now, once per animation frame
+  private drawStep = () => {
+    if (!this.ctx || !this.isPlaying) return;
+
+    const now = this.getAudibleTime();
+    let latest: StepPosition | null = null;
+    while (this.stepQueue.length && this.stepQueue[0].time <= now) {
+      latest = this.stepQueue.shift()!.position;
+    }
+    if (latest !== null && this.onStepCallback) this.onStepCallback(latest);
+
+    this.uiFrameID = window.requestAnimationFrame(this.drawStep);
+  };
+
+  // Context time of the sample currently leaving the speakers
+  private getAudibleTime(): number {
+    if (this.ctx instanceof AudioContext) {
+      const stamp = this.ctx.getOutputTimestamp();
+      if (stamp.contextTime !== undefined && stamp.contextTime > 0) return stamp.contextTime;
+    }
+    return this.ctx!.currentTime;
+  }
+
+  private emitClock(event: ClockEvent) {
+    this.clockListeners.forEach(listener => listener(event));
+  }
+
+  // 24 PPQN = 6 ticks per 16th note
+  private scheduleClockTicks(time: number) {
+    if (!this.clockListeners.length) return;
+    const tickLength = (60.0 / this.params.bpm) / 24;
+    for (let i = 0; i < 6; i++) {
+      this.emitClock({ type: 'tick', time: time + i * tickLength });
+    }
+  }
+
+  // --- OFFLINE RENDERING ---
+
+  public getFormLengthInBars(): number {
+    return this.form.length * 4;
+  }
+
+  // The whole arrangement, or one pass through the form when looping
+  public getTrackLengthInBars(): number {
+    return this.arrangementEnabled ? this.arrangement.totalBars : this.getFormLengthInBars();
+  }
+
+  public getSecondsPerBar(): number {
+    return (60 / this.params.bpm) * getQuartersPerBar(this.getMeter());
+  }
+
+  // Bounces the current composition through the same scheduler and instruments
+  // into an OfflineAudioContext, faster than realtime.
+  public async renderOffline(options: OfflineRenderOptions = {}): Promise<AudioBuffer> {
+    const bars = Math.max(1, Math.floor(options.bars ?? this.getTrackLengthInBars()));
+    const sampleRate = options.sampleRate ?? 44100;
+    const tailSeconds = options.tailSeconds ?? TRACK_TAIL_SECONDS;
+
+    const secondsPerBar = this.getSecondsPerBar();
+    const length = Math.ceil((bars * secondsPerBar + tailSeconds) * sampleRate);
+    const offlineCtx = new OfflineAudioContext(2, length, sampleRate);
+
+    await loadMasterSection(offlineCtx).catch(err => console.error("Master limiter unavailable:", err));
+
+    const renderer = this.createRenderer();
+    renderer.ctx = offlineCtx;
+    renderer.isOffline = true;
+    renderer.buildGraph();
+    renderer.scheduleBars(bars);
+
+    return offlineCtx.startRendering();
+  }
+
+  // Runs the scheduler without audio and returns every note it would play
+  public collectNoteEvents(bars: number = this.getTrackLengthInBars()): NoteEvent[] {
+    const events: NoteEvent[] = [];
+    const renderer = this.createRenderer();
+    renderer.addNoteListener(event => events.push(event));
+    renderer.scheduleBars(Math.max(1, Math.floor(bars)));
+    return events;
+  }
+
+  // A separate engine sharing this composition, so live playback is left untouched
+  private createRenderer(): AudioEngine {
+    const renderer = new AudioEngine({ ...this.params, seed: this.seed });
+    renderer.copyCompositionFrom(this);
+    renderer.mixer = this.getMixerState();
+    renderer.kits = this.kits;
+    renderer.groove = this.getGroove();
+    renderer.sidechain = this.getSidechain();
+    renderer.stereo = this.getStereo();
+    renderer.wavetableColors = this.wavetableColors;
+    renderer.customTuning = this.customTuning;
+    renderer.automation = this.automation; // Read-only in the renderer
+    renderer.automationMode = this.automationMode === 'off' ? 'off' : 'play';
+    renderer.autoGainDb = this.autoGainDb; // Bounced at the level auto-gain settled on
+    renderer.arrangement = this.getArrangement();
+    renderer.arrangementEnabled = this.arrangementEnabled;
+    return renderer;
+  }
+
+  private copyCompositionFrom(source: AudioEngine) {
+    this.loadComposition(source.getComposition());
+  }
+
+  private scheduleBars(bars: number) {
+    this.resetPerformanceRng();
+    this.current16thNote = 0;
+    this.globalBar = 0;
+    this.tick = 0;
+    this.intensity = this.getIntensity();
+    this.trackEndTime = null;
+    this.nextNoteTime = 0;
+
+    while (this.globalBar < bars && this.trackEndTime === null) {
       this.scheduleNote(this.current16thNote, this.nextNoteTime);
       this.nextNote();
     }
-    this.timerID = window.setTimeout(() => this.scheduler(), this.lookahead);
   }
 
   private nextNote() {
     const secondsPerBeat = 60.0 / this.params.bpm;
-    this.nextNoteTime += 0.25 * secondsPerBeat; // 16th note
     this.current16thNote++;
+    this.tick++;
+    if (this.clockLock && this.beatOffset !== null) {
+      // Locked: read the grid off the external timeline so tempo and phase changes follow it
+      this.nextNoteTime = Math.max(this.nextNoteTime, this.getExternalTime(this.tick / 4 + this.beatOffset, this.clockLock));
+    } else {
+      this.nextNoteTime += 0.25 * secondsPerBeat; // 16th note
+    }
     
-    if (this.current16thNote === 16) {
+    if (this.current16thNote >= this.getMeter().stepsPerBar) {
       this.current16thNote = 0;
       this.globalBar++;
+      this.applyPendingPattern();
       
       // --- DYNAMIC STRUCTURE LOGIC ---
       // Update Chord Sequence based on Song Form
@@ -351,24 +1418,43 @@ export class AudioEngine {
       this.activeSectionIdx = this.form[sectionIndex]; // 0 = A, 1 = B
       
       this.currentChordSequence = this.sections[this.activeSectionIdx];
+      if (this.globalBar % 4 === 0) this.evolveSection();
       
-      // Evolve Intensity
-      this.intensity = Math.min(1.0, this.globalBar / 64); // Full intensity after 64 bars
+      // Evolve Intensity (from the arrangement, or a 64-bar ramp when looping)
+      this.intensity = this.getIntensity();
+
+      if (this.arrangementEnabled && this.globalBar >= this.arrangement.totalBars) {
+        this.endTrack(this.nextNoteTime);
+      }
     }
   }
 
+  // Varies bass and melody each time a section comes round, building on its last variation
+  private evolveSection() {
+      const amount = getVariationAmount(this.params.complexity);
+      const previous = this.sectionLanes[this.activeSectionIdx] ?? null;
+      this.evolvedBars = evolveSection(previous, this.pattern, this.currentChordSequence, this.scale.length, amount, this.getMeter(), this.evolutionRng);
+      this.sectionLanes[this.activeSectionIdx] = this.evolvedBars;
+  }
+
   // --- MUSIC THEORY HELPERS ---
   
+  // Key of the form slot now playing; every pitched voice goes through getFreq, so all follow it
+  private getCurrentKey(): KeyChange {
+      const slot = Math.floor(this.globalBar / 4) % this.form.length;
+      return this.keys[slot] ?? HOME_KEY;
+  }
+
   private getFreq(scaleDegree: number, octaveOffset: number = 0): number {
+      const key = this.getCurrentKey();
+      scaleDegree += key.degreeShift;
+
       const scaleLen = this.scale.length;
       // Handle negative scale degrees correctly
       const normDegree = ((scaleDegree % scaleLen) + scaleLen) % scaleLen;
       const octaveShift = Math.floor(scaleDegree / scaleLen);
       
-      const semitones = this.scale[normDegree] + (octaveShift * 12) + (octaveOffset * 12);
-      
-      // Apply Key Change modulation based on Section? 
-      // e.g. B section +2 semitones? Keeping it simple for now.
+      const semitones = this.scale[normDegree] + (octaveShift + octaveOffset) * this.period + key.semitones;
       
       const baseMidi = 69 + 12 * Math.log2(this.params.baseNoteFrequency / 440);
       const targetMidi = baseMidi + semitones;
@@ -377,18 +1463,20 @@ export class AudioEngine {
   }
 
   private scheduleNote(beat: number, time: number) {
-    if (!this.ctx) return;
-
-    // UI Sync
-    const timeUntilNote = (time - this.ctx.currentTime) * 1000;
-    if (timeUntilNote >= 0) {
-        setTimeout(() => {
-            if (this.isPlaying && this.onStepCallback) {
-                this.onStepCallback(beat + ((this.globalBar % 4) * 16)); 
-            }
-        }, timeUntilNote);
+    // UI Sync (drained by drawStep on the next animation frames)
+    if (this.ctx && !this.isOffline) {
+        const position = { step: beat, stepsPerBar: this.getMeter().stepsPerBar, bar: this.globalBar % 4, songBar: this.globalBar, tick: this.tick };
+        this.stepQueue.push({ position, time });
     }
 
+    if (beat === 0) this.automateBar(time);
+    if (this.automationMode !== 'off') this.replayAutomation(time);
+
+    // Groove: every voice on this step shares its swing, micro-timing and accent
+    const secondsPer16th = 0.25 * 60.0 / this.params.bpm;
+    time = Math.max(0, time + getGrooveOffset(this.groove, beat, secondsPer16th, this.grooveRng));
+    this.stepAccent = getGrooveAccent(this.groove, beat);
+
     const { isFist, isPinching } = this.currentGestures;
 
     // --- RHYTHM SECTION ---
@@ -396,61 +1484,62 @@ export class AudioEngine {
     const isBreakdown = this.activeSectionIdx === 1 && this.params.complexity > 0.5;
 
     // Kick
-    const isKickStep = (beat % 4 === 0);
+    const isKickStep = this.laneValue(this.pattern.kick);
     if (isKickStep && !isFist && !isBreakdown) {
         if (this.params.style === 'easy_listening' || this.params.style === 'ambient') {
-            this.playKick(time, 0.6, 0.3); 
+            this.trigger({ voice: 'kick', time, velocity: 0.6, duration: 0.3 }); 
         } else if (this.params.style === 'symphony') {
-             if (beat === 0) this.playTimpani(time, 0.8);
+             this.trigger({ voice: 'timpani', time, velocity: 0.8, duration: 0.6 });
         } else {
-            this.playKick(time, 1.0, 0.5); 
+            this.trigger({ voice: 'kick', time, velocity: 1.0, duration: 0.5 }); 
         }
     }
 
     // Snare / Clap
-    if ((beat === 4 || beat === 12) && !isFist && !isBreakdown) {
-        if (this.params.style === 'techno' || this.params.style === 'industrial') {
-             this.playNoiseSnare(time, 0.5);
-        } else if (this.params.style === 'easy_listening') {
-             this.playShaker(time, 0.2); 
+    if (this.laneValue(this.pattern.snare) && !isFist && !isBreakdown) {
+        if (this.params.style === 'easy_listening') {
+             this.trigger({ voice: 'shaker', time, velocity: 0.2, duration: 0.05, pan: this.getPan(0.3) }); 
+        } else {
+             this.trigger({ voice: 'snare', time, velocity: 0.5, duration: 0.15 });
         }
     }
 
     // HiHats (Evolving)
-    // Add 16th notes as intensity increases
+    // Add 16th fills after active hats as intensity increases; pinch rolls every step
     const is16th = beat % 2 !== 0;
-    const shouldPlayHat = !is16th || (this.intensity > 0.5) || isPinching;
+    const hats = this.pattern.hat;
+    const isFill = is16th && hats.length > 0 && hats[(this.tick + hats.length - 1) % hats.length] && this.intensity > 0.5;
+    const isRoll = isPinching && hats.some(Boolean);
+    const shouldPlayHat = this.laneValue(hats) || isFill || isRoll;
     
     if (shouldPlayHat && !isFist) {
-        if (this.params.style !== 'symphony') { 
-             const vol = isPinching ? 0.6 : (is16th ? 0.15 : 0.3);
-             this.playHiHat(time, vol, isPinching ? 0.02 : 0.05);
-        }
+         const vol = isPinching ? 0.6 : (is16th ? 0.15 : 0.3);
+         const pan = this.getPan(HAT_PANS[Math.floor(this.tick / 2) % HAT_PANS.length]);
+         this.trigger({ voice: 'hat', time, velocity: vol, duration: isPinching ? 0.02 : 0.05, pan });
     }
 
     // --- HARMONY & MELODY ---
 
-    // 1. Chords (On Beat 0)
+    // 1. Chords (voiced on beat 0, struck in the style's chord rhythm)
     // Dynamic Voicing: In B section, maybe play an octave higher for tension
-    if (beat === 0) {
-        const octaveShift = (this.activeSectionIdx === 1) ? 1 : 0;
-        this.playChord(time, isFist, octaveShift);
-    }
+    const octaveShift = (this.activeSectionIdx === 1) ? 1 : 0;
+    this.triggerChord(time, beat, octaveShift);
 
     // 2. Bassline
     // Techno/Industrial: Bass stays grounded.
     // House/Symphony: Bass follows root of chord.
     if (!isFist && !isBreakdown) {
-        let bassNote = this.bassPattern[beat];
+        const evolved = this.evolvedBars?.[this.globalBar % 4];
+        let bassNote = this.laneValue((evolved ?? this.pattern).bass) ?? null;
         
         // Dynamic Bass: Follow Chord Root
         if (bassNote !== null) {
             const currentChordRoot = this.currentChordSequence[this.globalBar % 4];
-            // If scale degree is 0 (root), shift it to chord root
-            if (bassNote === 0) bassNote = currentChordRoot;
+            // If scale degree is 0 (root), shift it to chord root; evolved lanes are already resolved
+            if (bassNote === 0 && !evolved) bassNote = currentChordRoot;
             
             const freq = this.getFreq(bassNote, 0); 
-            this.playBass(time, freq);
+            this.trigger({ voice: 'bass', time, freq, velocity: 1.0, duration: 0.3 });
         }
     }
 
@@ -468,10 +1557,10 @@ export class AudioEngine {
         const freq = this.getFreq(chordRoot + arpIntervals[arpIdx], 2);
         const type = this.params.style === 'symphony' ? 'strings' : 'pluck';
         
-        if (!isFist) this.playSynth(time, freq, 0.1, type);
+        if (!isFist) this.trigger({ voice: 'lead', time, freq, velocity: 1.0, duration: 0.1, synthType: type, pan: this.getPan(ARP_PANS[arpIdx]) });
     } else {
         // Standard Melody Pattern
-        const melodyNote = this.melodyPattern[beat];
+        const melodyNote = this.laneValue((this.evolvedBars?.[this.globalBar % 4] ?? this.pattern).melody) ?? null;
         if (melodyNote !== null) {
             const octave = isPinching ? 2 : 1;
             const freq = this.getFreq(melodyNote, octave);
@@ -481,41 +1570,78 @@ export class AudioEngine {
             if (this.params.style === 'easy_listening') type = 'pluck';
             if (this.params.style === 'ambient') type = 'pluck';
 
-            this.playSynth(time, freq, 0.2, type);
+            this.trigger({ voice: 'lead', time, freq, velocity: 1.0, duration: 0.2, synthType: type });
         }
     }
   }
 
-  // --- INSTRUMENT SYNTHESIS ---
-
-  private playChord(time: number, isBuilding: boolean, octaveShift: number) {
+  private triggerChord(time: number, beat: number, octaveShift: number) {
       const barInSequence = this.globalBar % 4;
-      const rootDegree = this.currentChordSequence[barInSequence];
-      
-      // Construct Chord: Root, 3rd, 5th, sometimes 7th if complex
-      const notes = [rootDegree, rootDegree + 2, rootDegree + 4];
-      if (this.params.complexity > 0.7) notes.push(rootDegree + 6); // Add 7th
-      
-      const duration = 60 / this.params.bpm * 4; 
-      
-      notes.forEach((degree, i) => {
-          // Spread voicing
-          let octave = (i === 0) ? 0 : 1;
-          octave += octaveShift;
-          
-          const freq = this.getFreq(degree, octave);
-          
-          let type: 'pad' | 'strings' | 'epiano' = 'pad';
-          if (this.params.style === 'symphony') type = 'strings';
-          if (this.params.style === 'easy_listening') type = 'epiano';
+      if (beat === 0 || !this.voicing) {
+          // Inversion nearest the last chord; extensions from style and complexity
+          const shape = getChordShape(this.params.style, this.params.complexity, barInSequence);
+          this.voicing = voiceChord(this.currentChordSequence[barInSequence], shape, this.scale.length, this.voicing);
+      }
 
-          // Random velocity for human feel
-          const velocity = 0.8 + Math.random() * 0.2;
-          this.playSynth(time, freq, duration, type, velocity);
+      const notes = [this.voicing.bass, ...this.voicing.upper];
+      const rhythm = DEFAULT_CHORD_RHYTHMS[this.params.style] ?? 'sustain';
+      const hits = getChordHits(rhythm, this.getMeter(), notes.length).filter(hit => hit.step === beat);
+      const secondsPer16th = 0.25 * 60.0 / this.params.bpm;
+
+      let type: 'pad' | 'strings' | 'epiano' = 'pad';
+      if (this.params.style === 'symphony') type = 'strings';
+      if (this.params.style === 'easy_listening') type = 'epiano';
+
+      hits.forEach(hit => {
+          const duration = hit.length * secondsPer16th;
+          const voices = hit.voice === null ? notes.map((_, i) => i) : [hit.voice];
+          voices.forEach(i => {
+              // Upper voices are already placed above the bass
+              const freq = this.getFreq(notes[i], octaveShift);
+
+              // Random velocity for human feel
+              const velocity = hit.velocity * (0.8 + this.performanceRng() * 0.2);
+              const pan = this.getPan(getChordPan(i, notes.length, this.stereo.width));
+              this.trigger({ voice: 'chord', time, freq, velocity, duration, synthType: type, pan });
+          });
       });
   }
 
-  private playBass(time: number, freq: number) {
+  private trigger(event: NoteEvent) {
+    if (!this.isLayerActive(VOICE_LAYERS[event.voice])) return;
+    event = { ...event, velocity: event.velocity * this.stepAccent };
+    if (this.ctx) this.playEvent(event);
+    this.noteListeners.forEach(listener => listener(event));
+  }
+
+  // --- INSTRUMENT SYNTHESIS ---
+
+  private playEvent(event: NoteEvent) {
+    const { time, velocity, duration, freq = 0, pan = 0 } = event;
+    if (event.voice === 'kick') this.duck(time);
+
+    const slot = VOICE_KIT_SLOTS[event.voice];
+    const sample = slot && this.kits?.getSample(this.params.style, slot);
+    if (sample) {
+        this.playOneShot(time, sample, velocity, pan);
+        return;
+    }
+
+    switch (event.voice) {
+        case 'kick': this.playKick(time, velocity, duration); break;
+        case 'timpani': this.playTimpani(time, velocity); break;
+        case 'snare': this.playNoiseSnare(time, velocity); break;
+        case 'shaker': this.playShaker(time, velocity, pan); break;
+        case 'hat': this.playHiHat(time, velocity, duration, pan); break;
+        case 'bass': this.playBass(time, freq, velocity); break;
+        case 'chord':
+        case 'lead':
+            this.playSynth(time, freq, duration, event.synthType ?? 'lead', velocity, VOICE_BUSES[event.voice], pan);
+            break;
+    }
+  }
+
+  private playBass(time: number, freq: number, velocity: number = 1.0) {
     const osc = this.ctx!.createOscillator();
     const gain = this.ctx!.createGain();
     
@@ -524,7 +1650,7 @@ export class AudioEngine {
 
     osc.frequency.setValueAtTime(freq, time);
 
-    gain.gain.setValueAtTime(0.5, time);
+    gain.gain.setValueAtTime(0.5 * velocity, time);
     gain.gain.exponentialRampToValueAtTime(0.01, time + 0.3);
 
     const filter = this.ctx!.createBiquadFilter();
@@ -536,104 +1662,106 @@ export class AudioEngine {
 
     osc.connect(filter);
     filter.connect(gain);
-    gain.connect(this.distortionNode!); 
+    gain.connect(this.buses.bass!.input); 
 
     osc.start(time);
     osc.stop(time + 0.3);
+
+    this.bassVoices.add({
+        start: time,
+        end: time + 0.3,
+        release: (at) => {
+            fadeOutParam(gain.gain, at);
+            osc.stop(at + STEAL_FADE);
+        }
+    });
   }
 
-  private playKick(time: number, vol: number, decay: number) {
-    const osc = this.ctx!.createOscillator();
-    const gain = this.ctx!.createGain();
-    
-    osc.frequency.setValueAtTime(150, time);
-    osc.frequency.exponentialRampToValueAtTime(40, time + decay);
-    
-    gain.gain.setValueAtTime(vol, time);
-    gain.gain.exponentialRampToValueAtTime(0.01, time + decay);
+  // Image palette the wavetable engine is built from
+  public setWavetableColors(colors: string[]) {
+    this.wavetableColors = [...colors];
+    this.wavetable = null;
+  }
 
-    osc.connect(gain);
-    gain.connect(this.masterGain!); 
-    
-    osc.start(time);
-    osc.stop(time + decay);
+  // Cached one-shot buffer, rendered on first use
+  private getOneShot(key: string, render: () => AudioBuffer): AudioBuffer {
+    let buffer = this.oneShots.get(key);
+    if (!buffer) {
+      buffer = render();
+      this.oneShots.set(key, buffer);
+    }
+    return buffer;
   }
 
-  private playTimpani(time: number, vol: number) {
-      const osc = this.ctx!.createOscillator();
-      const gain = this.ctx!.createGain();
-      
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(100, time);
-      osc.frequency.exponentialRampToValueAtTime(50, time + 0.3);
+  // Pluck buffer for a pitch, rendered on demand. Key changes, modulation and tunings keep
+  // producing new pitches, so unlike the drum one-shots this cache is bounded.
+  private getPluck(freq: number, length: number, brightness: number): AudioBuffer {
+    const key = `${freq.toFixed(2)}:${length}:${brightness}`;
+    let buffer = this.plucks.get(key);
+    if (buffer) {
+      this.plucks.delete(key);
+    } else {
+      buffer = renderPluck(this.ctx!, freq, length, brightness, createRng(Math.round(freq * 100)));
+      if (this.plucks.size >= MAX_PLUCK_BUFFERS) this.plucks.delete(this.plucks.keys().next().value!);
+    }
+    this.plucks.set(key, buffer);
+    return buffer;
+  }
 
-      gain.gain.setValueAtTime(vol, time);
-      gain.gain.exponentialRampToValueAtTime(0.01, time + 0.6);
+  private playOneShot(time: number, buffer: AudioBuffer, vol: number, pan: number = 0) {
+    const source = this.ctx!.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.ctx!.createGain();
+    gain.gain.value = vol;
 
-      osc.connect(gain);
-      gain.connect(this.reverbNode!); 
-      gain.connect(this.masterGain!);
-      
-      osc.start(time);
-      osc.stop(time + 0.6);
+    source.connect(gain);
+    gain.connect(this.voiceOutput(this.buses.drums!.input, pan));
+    source.start(time);
   }
 
-  private playHiHat(time: number, vol: number, decay: number) {
-    const bufferSize = this.ctx!.sampleRate * decay; 
-    const buffer = this.ctx!.createBuffer(1, bufferSize, this.ctx!.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
+  private playKick(time: number, vol: number, decay: number) {
+    const buffer = this.getOneShot(`kick:${decay}`, () => renderPitchDrop(this.ctx!, 150, 40, decay, decay));
+    this.playOneShot(time, buffer, vol);
+  }
+
+  private playTimpani(time: number, vol: number) {
+      const buffer = this.getOneShot('timpani', () => renderPitchDrop(this.ctx!, 100, 50, 0.3, 0.6));
+      this.playOneShot(time, buffer, vol);
+  }
+
+  private playHiHat(time: number, vol: number, decay: number, pan: number = 0) {
+    // Shared noise, read from a random offset so consecutive hits differ
     const noise = this.ctx!.createBufferSource();
-    noise.buffer = buffer;
-    
-    const filter = this.ctx!.createBiquadFilter();
-    filter.type = 'highpass';
-    filter.frequency.value = 8000;
+    noise.buffer = this.noiseBuffer;
+    const offset = this.noiseRng() * (NOISE_SECONDS - decay);
 
     const gain = this.ctx!.createGain();
     gain.gain.setValueAtTime(vol, time);
     gain.gain.exponentialRampToValueAtTime(0.001, time + decay);
 
-    noise.connect(filter);
-    filter.connect(gain);
-    gain.connect(this.masterGain!);
+    noise.connect(gain);
+    gain.connect(this.voiceOutput(this.noiseFilter!, pan));
 
-    noise.start(time);
+    noise.start(time, Math.max(0, offset), decay);
   }
   
   private playNoiseSnare(time: number, vol: number) {
       this.playHiHat(time, vol, 0.15); 
   }
   
-  private playShaker(time: number, vol: number) {
-      this.playHiHat(time, vol * 0.5, 0.05);
+  private playShaker(time: number, vol: number, pan: number = 0) {
+      this.playHiHat(time, vol * 0.5, 0.05, pan);
   }
 
-  private playSynth(time: number, freq: number, duration: number, type: 'lead' | 'pad' | 'pluck' | 'strings' | 'woodwind' | 'epiano', velocity: number = 1.0) {
-    const osc = this.ctx!.createOscillator();
+  private playSynth(time: number, freq: number, duration: number, type: SynthVoiceType, velocity: number = 1.0, busId: MixerBusId = 'lead', pan: number = 0) {
+    const voice = this.createSynthSource(time, freq, duration, type);
     const gain = this.ctx!.createGain();
-    
-    switch(type) {
-        case 'strings': osc.type = 'sawtooth'; break;
-        case 'woodwind': osc.type = 'sine'; break;
-        case 'epiano': osc.type = 'triangle'; break;
-        case 'pad': osc.type = this.params.synthType; break;
-        default: osc.type = this.params.synthType;
-    }
 
-    osc.frequency.setValueAtTime(freq, time);
-    
-    if (this.params.style === 'symphony' || type === 'lead') {
-         const vibrato = this.ctx!.createOscillator();
-         vibrato.frequency.value = 5; 
-         const vibGain = this.ctx!.createGain();
-         vibGain.gain.value = 3; 
-         vibrato.connect(vibGain);
-         vibGain.connect(osc.frequency);
-         vibrato.start(time);
-         vibrato.stop(time + duration);
+    if (voice.frequency && (this.params.style === 'symphony' || type === 'lead')) {
+         const vibrato = this.vibratoGain!;
+         const pitch = voice.frequency;
+         vibrato.connect(pitch);
+         voice.source.onended = () => vibrato.disconnect(pitch);
     }
 
     const peak = 0.3 * velocity;
@@ -653,27 +1781,62 @@ export class AudioEngine {
         gain.gain.linearRampToValueAtTime(0, time + duration);
     }
 
-    osc.connect(gain);
+    voice.output.connect(gain);
     
+    // Pads and strings stay clean; everything else runs through the bus inserts
+    const bus = this.buses[busId]!;
     if (type === 'strings' || type === 'pad') {
-         gain.connect(this.reverbNode!);
-         gain.connect(this.masterGain!);
-    } else if (type === 'epiano') {
-         gain.connect(this.filterNode!); 
+         gain.connect(this.voiceOutput(bus.fader, pan));
     } else {
-         gain.connect(this.distortionNode!);
+         gain.connect(this.voiceOutput(bus.input, pan));
     }
 
-    osc.start(time);
-    osc.stop(time + duration);
+    voice.stop(time + duration);
+
+    this.synthVoices.add({
+        start: time,
+        end: time + duration,
+        release: (at) => {
+            fadeOutParam(gain.gain, at);
+            voice.stop(at + STEAL_FADE);
+        }
+    });
+  }
+
+  // Picks the voice engine: some roles have a fixed timbre, the rest follow synthType
+  private createSynthSource(time: number, freq: number, duration: number, type: SynthVoiceType): SynthSource {
+    const ctx = this.ctx!;
+    let engine = this.params.synthType;
+    switch(type) {
+        case 'strings': engine = 'sawtooth'; break;
+        case 'woodwind': engine = 'sine'; break;
+        case 'epiano': engine = 'fm'; break;
+        case 'pad': if (engine === 'plucked') engine = 'triangle'; break; // A pluck can't sustain a pad
+    }
+
+    if (engine === 'fm') {
+        const patch: FmPatchId = type === 'epiano' ? 'epiano' : type === 'pad' ? 'pad' : 'bell';
+        return createFmSource(ctx, time, freq, FM_PATCHES[patch]);
+    }
+    if (engine === 'wavetable') {
+        if (!this.wavetable) this.wavetable = buildWavetable(ctx, this.wavetableColors);
+        return createOscillatorSource(ctx, time, freq, this.wavetable);
+    }
+    if (engine === 'plucked') {
+        // Rendered per pitch; lengths snap to 250ms so tempo changes reuse buffers
+        const length = Math.min(4, Math.ceil(duration * 4) / 4);
+        const brightness = Math.round((1 - this.params.darkness) * 4) / 4;
+        return createBufferSource(ctx, time, this.getPluck(freq, length, brightness));
+    }
+    return createOscillatorSource(ctx, time, freq, engine);
   }
 
   public getAnalyser(): AnalyserNode | null {
      if (!this.ctx) return null;
      const analyser = this.ctx.createAnalyser();
      analyser.fftSize = 2048;
-     if (this.compressorNode) {
-         this.compressorNode.connect(analyser);
+     if (this.masterOutput) {
+         this.masterOutput.connect(analyser);
      }
      return analyser;
   }
@@ -0,0 +1,36 @@
+import { HandGestures } from '../types';
+
+// --- GESTURE AUTOMATION ---
+// A take is the performed HandGestures stream, stamped with the song position it was
+// heard at: `tick` counts 16ths since playback started (fractional between steps), so a
+// take stays on the bar and step it was played on even if the tempo changes.
+export type AutomationMode = 'off' | 'play' | 'record';
+
+export interface AutomationPoint {
+  tick: number;
+  gestures: HandGestures;
+}
+
+// First index whose tick is >= the given tick (or > it, when `after` is set)
+const findIndex = (points: AutomationPoint[], tick: number, after: boolean = false): number => {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].tick < tick || (after && points[mid].tick === tick)) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Points in [from, to), in order
+export const getPointsInRange = (points: AutomationPoint[], from: number, to: number): AutomationPoint[] =>
+  points.slice(findIndex(points, from), findIndex(points, to));
+
+// Overdubs one point in place: whatever the take held after the previous point of this
+// pass (`fromTick`) up to the new one is replaced, the rest of the take is kept.
+export const overdubPoint = (points: AutomationPoint[], point: AutomationPoint, fromTick: number) => {
+  const start = findIndex(points, fromTick, true);
+  const end = Math.max(start, findIndex(points, point.tick, true));
+  points.splice(start, end - start, point);
+};
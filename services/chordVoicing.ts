@@ -0,0 +1,142 @@
+import { MusicStyle } from '../types';
+import { Meter } from './meter';
+
+// --- CHORD VOICING ---
+// Chords are built and voiced in scale degrees (degree 0 = key root, +scale length =
+// one octave up), so key changes and the active scale still apply in getFreq.
+// The root sits alone in the bass; the upper structure moves to whichever inversion
+// is nearest to the previous chord, instead of jumping back to root position every bar.
+
+// Chord tones above the root, in scale steps
+export const CHORD_SHAPES = {
+  triad: [0, 2, 4],
+  sus2: [0, 1, 4],
+  sus4: [0, 3, 4],
+  seventh: [0, 2, 4, 6],
+  add9: [0, 2, 4, 8],
+  ninth: [0, 2, 4, 6, 8],
+  eleventh: [0, 2, 6, 8, 10] // Fifth dropped to keep the stack from getting muddy
+};
+
+export type ChordShape = keyof typeof CHORD_SHAPES;
+
+// Extensions by style; complexity unlocks the richer shapes. Sus chords replace the
+// triad on alternate bars so modal styles keep some open, unresolved colour.
+export const getChordShape = (style: MusicStyle, complexity: number, bar: number): ChordShape => {
+  const alternate = bar % 2 === 1;
+  switch (style) {
+    case 'house': return complexity > 0.6 ? 'ninth' : complexity > 0.3 ? 'seventh' : 'triad';
+    case 'easy_listening': return complexity > 0.5 ? 'ninth' : 'seventh';
+    case 'ambient': return complexity > 0.7 ? 'eleventh' : alternate ? 'sus2' : 'add9';
+    case 'techno':
+    case 'industrial': return complexity > 0.7 ? 'seventh' : alternate ? 'sus4' : 'triad';
+    case 'glitch': return complexity > 0.5 && alternate ? 'sus2' : 'triad';
+    default: return complexity > 0.7 ? 'seventh' : 'triad';
+  }
+};
+
+export interface ChordVoicing {
+  bass: number; // Root, in the bass octave
+  upper: number[]; // Ascending absolute degrees, in the range above it
+}
+
+// Upper voices stay inside about two octaves above the bass octave
+const UPPER_LOW = 0.75;
+const UPPER_HIGH = 2.5;
+const CENTER_PULL = 0.25; // Per step of drift from the middle of the range, so voicings don't creep
+
+// Total movement between two voicings. With different voice counts, each new voice
+// is charged for the distance to its nearest previous voice.
+const voiceLeadingCost = (from: number[], to: number[]): number => {
+  if (from.length === to.length) return to.reduce((sum, degree, i) => sum + Math.abs(degree - from[i]), 0);
+  return to.reduce((sum, degree) => sum + Math.min(...from.map(prev => Math.abs(degree - prev))), 0);
+};
+
+export const voiceChord = (root: number, shape: ChordShape, scaleLength: number, previous: ChordVoicing | null): ChordVoicing => {
+  const offsets = CHORD_SHAPES[shape];
+  // Four or more tones: the bass already has the root, so the upper structure leaves it out
+  const tones = offsets.length > 3 ? offsets.slice(1) : offsets;
+  const pitchClasses = [...new Set(tones.map(offset => offset % scaleLength))].sort((a, b) => a - b);
+  const low = scaleLength * UPPER_LOW;
+  const high = scaleLength * UPPER_HIGH;
+  const center = (low + high) / 2;
+
+  // Root position, one octave up, if no inversion fits the range
+  let best = tones.map(offset => root + offset + scaleLength);
+  let bestCost = Infinity;
+  for (let inversion = 0; inversion < pitchClasses.length; inversion++) {
+    // Close position from this inversion's lowest tone, each tone stacked just above the last
+    const close: number[] = [];
+    for (let i = 0; i < pitchClasses.length; i++) {
+      let degree = root + pitchClasses[(inversion + i) % pitchClasses.length];
+      while (close.length && degree <= close[close.length - 1]) degree += scaleLength;
+      close.push(degree);
+    }
+
+    for (let octave = -2; octave <= 3; octave++) {
+      const upper = close.map(degree => degree + octave * scaleLength);
+      if (upper[0] < low || upper[upper.length - 1] > high) continue;
+
+      // The first chord just settles near the middle of the range
+      const mean = upper.reduce((sum, degree) => sum + degree, 0) / upper.length;
+      const cost = (previous ? voiceLeadingCost(previous.upper, upper) : 0) + Math.abs(mean - center) * CENTER_PULL;
+      if (cost < bestCost) {
+        best = upper;
+        bestCost = cost;
+      }
+    }
+  }
+  return { bass: root, upper: best };
+};
+
+// --- CHORD RHYTHMS ---
+// Where in the bar the voiced chord is struck. Lengths are in 16ths and may run past
+// the bar line (swells overlap the next chord).
+export type ChordRhythmId = 'sustain' | 'stabs' | 'swell' | 'arpeggio' | 'comp';
+
+export interface ChordHit {
+  step: number;
+  length: number;
+  velocity: number;
+  voice: number | null; // Index into bass + upper for a single arpeggiated note; null = whole chord
+}
+
+export const DEFAULT_CHORD_RHYTHMS: Record<MusicStyle, ChordRhythmId> = {
+  techno: 'sustain',
+  industrial: 'sustain',
+  house: 'stabs', // Offbeat organ/piano stabs
+  easy_listening: 'comp',
+  ambient: 'swell',
+  symphony: 'arpeggio', // Arpeggiated strings
+  glitch: 'sustain'
+};
+
+// Midway between consecutive felt pulses
+const getOffbeats = (meter: Meter): number[] =>
+  meter.beats.map((beat, i) => Math.round((beat + (meter.beats[i + 1] ?? meter.stepsPerBar)) / 2));
+
+export const getChordHits = (rhythm: ChordRhythmId, meter: Meter, voiceCount: number): ChordHit[] => {
+  const bar = meter.stepsPerBar;
+  switch (rhythm) {
+    case 'stabs':
+      return getOffbeats(meter).map(step => ({ step, length: 2, velocity: 0.9, voice: null }));
+    case 'swell':
+      return [{ step: 0, length: bar * 1.5, velocity: 0.8, voice: null }];
+    case 'comp':
+      return [0, ...meter.backbeats].map(step => ({ step, length: step === 0 ? 3 : 2, velocity: step === 0 ? 0.9 : 0.7, voice: null }));
+    case 'arpeggio': {
+      // Up through the voicing and back down, one note per 8th
+      const order = voiceCount > 1
+        ? [...Array.from({ length: voiceCount }, (_, i) => i), ...Array.from({ length: voiceCount - 2 }, (_, i) => voiceCount - 2 - i)]
+        : [0];
+      return Array.from({ length: Math.ceil(bar / 2) }, (_, i) => ({
+        step: i * 2,
+        length: 3,
+        velocity: i === 0 ? 0.9 : 0.7,
+        voice: order[i % order.length]
+      }));
+    }
+    default:
+      return [{ step: 0, length: bar, velocity: 1, voice: null }];
+  }
+};
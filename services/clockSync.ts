@@ -0,0 +1,190 @@
+import { AudioEngine } from './audioEngine';
+
+export type ClockSyncMode = 'off' | 'master' | 'follower';
+export type ClockSyncStatus = 'disconnected' | 'connecting' | 'connected' | 'locked' | 'error';
+
+// One message per quarter note from the master: `beat` (quarters since its transport
+// started) lands at `time`, in Unix epoch milliseconds. Epoch time is shared by every
+// instance on the same machine, and closely enough by NTP-synced machines on a LAN.
+export interface ClockBeatMessage {
+  type: 'beat';
+  peer: string;
+  bpm: number;
+  beat: number;
+  time: number;
+}
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8765';
+
+const PPQN = 24; // Engine clock ticks per quarter note
+const LOCK_TIMEOUT = 2000; // ms without beats before a follower reports it lost the master
+
+// --- CLOCK SYNC ---
+// Shares tempo and phase between instances over a WebSocket relay (see server/clockRelay.mjs).
+// A master broadcasts its beat grid; followers lock their scheduler to the latest beat they heard.
+export class ClockSync {
+  private socket: WebSocket | null = null;
+  private engine: AudioEngine | null = null;
+  private mode: ClockSyncMode = 'off';
+  private status: ClockSyncStatus = 'disconnected';
+  private url: string = DEFAULT_RELAY_URL;
+  private peer: string = Math.random().toString(36).slice(2, 10);
+  private clockTicks: number = 0;
+  private lastBeatAt: number = 0;
+  private lockTimer: number | undefined;
+  private detachFn: (() => void) | null = null;
+
+  private onStatus: ((status: ClockSyncStatus) => void) | null = null;
+  private onTempo: ((bpm: number) => void) | null = null;
+
+  public static isSupported(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  public setOnStatus(callback: ((status: ClockSyncStatus) => void) | null) {
+    this.onStatus = callback;
+  }
+
+  // Called when following changes the engine's tempo
+  public setOnTempo(callback: ((bpm: number) => void) | null) {
+    this.onTempo = callback;
+  }
+
+  public getMode(): ClockSyncMode {
+    return this.mode;
+  }
+
+  public getStatus(): ClockSyncStatus {
+    return this.status;
+  }
+
+  public getUrl(): string {
+    return this.url;
+  }
+
+  // Reconnects straight away unless sync is off
+  public setUrl(url: string) {
+    if (url === this.url) return;
+    if (this.mode === 'off') {
+      this.url = url;
+    } else {
+      this.connect(url);
+    }
+  }
+
+  public attach(engine: AudioEngine) {
+    this.detach();
+    this.engine = engine;
+    this.clockTicks = 0;
+    this.detachFn = engine.addClockListener(event => {
+      if (event.type === 'start') this.clockTicks = 0;
+      if (event.type !== 'tick') return;
+      if (this.mode === 'master' && this.clockTicks % PPQN === 0) {
+        this.send({
+          type: 'beat',
+          peer: this.peer,
+          bpm: engine.getParams().bpm,
+          beat: this.clockTicks / PPQN,
+          time: performance.timeOrigin + engine.toPerformanceTime(event.time)
+        });
+      }
+      this.clockTicks++;
+    });
+  }
+
+  public detach() {
+    this.detachFn?.();
+    this.detachFn = null;
+    this.engine?.setClockLock(null);
+    this.engine = null;
+  }
+
+  public setMode(mode: ClockSyncMode) {
+    this.mode = mode;
+    this.engine?.setClockLock(null);
+    window.clearTimeout(this.lockTimer);
+    if (mode === 'off') {
+      this.disconnect();
+    } else {
+      this.connect(this.url);
+    }
+  }
+
+  public connect(url: string) {
+    if (this.socket && this.url === url) return;
+    this.disconnect();
+    this.url = url;
+
+    try {
+      this.socket = new WebSocket(url);
+    } catch (err) {
+      console.error("Clock relay connection failed:", err);
+      this.setStatus('error');
+      return;
+    }
+    this.setStatus('connecting');
+
+    const socket = this.socket;
+    socket.onopen = () => this.setStatus('connected');
+    socket.onerror = () => this.setStatus('error');
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.engine?.setClockLock(null);
+      if (this.status !== 'error') this.setStatus('disconnected');
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  public disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('disconnected');
+  }
+
+  public dispose() {
+    this.detach();
+    this.disconnect();
+    window.clearTimeout(this.lockTimer);
+  }
+
+  private handleMessage(data: unknown) {
+    if (this.mode !== 'follower' || !this.engine || typeof data !== 'string') return;
+
+    let message: ClockBeatMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (message?.type !== 'beat' || message.peer === this.peer) return;
+    if (!(message.bpm > 0) || !Number.isFinite(message.beat) || !Number.isFinite(message.time)) return;
+
+    const previousBpm = this.engine.getParams().bpm;
+    this.engine.setClockLock({
+      bpm: message.bpm,
+      beat: message.beat,
+      time: this.engine.fromPerformanceTime(message.time - performance.timeOrigin)
+    });
+    if (message.bpm !== previousBpm && this.onTempo) this.onTempo(message.bpm);
+
+    this.lastBeatAt = performance.now();
+    this.setStatus('locked');
+    window.clearTimeout(this.lockTimer);
+    this.lockTimer = window.setTimeout(() => {
+      // Keep playing at the last tempo, but report that the master went quiet
+      if (performance.now() - this.lastBeatAt >= LOCK_TIMEOUT && this.status === 'locked') this.setStatus('connected');
+    }, LOCK_TIMEOUT);
+  }
+
+  private send(message: ClockBeatMessage) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private setStatus(status: ClockSyncStatus) {
+    this.status = status;
+    if (this.onStatus) this.onStatus(status);
+  }
+}
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { SonicParameters } from "../types";
+import { LIBRARY_SCALES } from "./tuning";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -42,8 +43,16 @@ export const analyzeImageForSound = async (base64Image: string, mimeType: string
               - Sawtooth (harsh/strings)
               - Square (retro/woodwind-ish)
               - Sine (smooth/flute)
-              - Triangle (soft/keys).
-            - Base Freq: 40-60Hz for deep bass, 60-100Hz for lighter bass.`
+              - Triangle (soft/keys)
+              - FM (bells/electric piano, glassy or metallic images)
+              - Wavetable (a timbre built from the image's own colours, for richly coloured images)
+              - Plucked (guitar/harp-like, for acoustic, rustic or intimate images).
+            - Base Freq: 40-60Hz for deep bass, 60-100Hz for lighter bass.
+            - Scale (optional; leave it out to use the style's usual mode):
+              - maqam_rast / maqam_bayati / maqam_hijaz for Middle Eastern or North African scenes, deserts, souks, mosaics
+              - pelog / slendro for Indonesian or Southeast Asian scenes, temples, batik, rice terraces
+              - just_major / just_minor for pure, still, natural images (calm water, open sky)
+              - otherwise a Western mode: minor, major, phrygian, dorian, pentatonic, harmonic_minor, lydian.`
           }
         ]
       },
@@ -63,10 +72,15 @@ export const analyzeImageForSound = async (base64Image: string, mimeType: string
             space: { type: Type.NUMBER, description: "0.0 to 1.0" },
             synthType: { 
               type: Type.STRING, 
-              enum: ['sawtooth', 'square', 'sine', 'triangle'],
-              description: "Oscillator waveform"
+              enum: ['sawtooth', 'square', 'sine', 'triangle', 'fm', 'wavetable', 'plucked'],
+              description: "Oscillator waveform or voice engine"
             },
-            baseNoteFrequency: { type: Type.NUMBER, description: "Root frequency in Hz" }
+            baseNoteFrequency: { type: Type.NUMBER, description: "Root frequency in Hz" },
+            scale: {
+              type: Type.STRING,
+              enum: LIBRARY_SCALES,
+              description: "Scale or tuning suggested by the imagery"
+            }
           },
           required: ["style", "bpm", "complexity", "darkness", "space", "synthType", "baseNoteFrequency"]
         }
@@ -0,0 +1,82 @@
+import { MusicStyle } from '../types';
+import { Meter } from './meter';
+import { Rng } from './random';
+
+// --- GROOVE TEMPLATES ---
+// How a bar of 16ths is pushed off the grid and accented. Timing is measured in
+// fractions of a 16th so a template feels the same at any tempo. Templates have one
+// entry per step of the active meter, so accents follow its pulse grouping.
+export interface GrooveTemplate {
+  swing: number; // MPC-style swing percent: 50 = straight, 66 = triplet feel, 75 = maximum
+  timing: number[]; // Per-step offset, -0.5 to 0.5 of a 16th
+  accents: number[]; // Per-step velocity multiplier, 0.0 to 1.0
+  humanize: number; // Random timing spread per step, 0.0 to 0.5 of a 16th
+}
+
+export const SWING_RANGE: [number, number] = [50, 75];
+export const TIMING_RANGE: [number, number] = [-0.5, 0.5];
+export const HUMANIZE_RANGE: [number, number] = [0, 0.5];
+
+interface GrooveStyle {
+  swing: number;
+  humanize: number;
+  accents: number[]; // Pulse, 8th offbeat and 16th levels, or a literal 16-step cycle
+  timing?: number[]; // Literal 16-step cycle; straight when absent
+}
+
+const GROOVE_STYLES: Record<MusicStyle, GrooveStyle> = {
+  techno: { swing: 50, humanize: 0, accents: [1, 0.9, 0.8] }, // Straight grid
+  industrial: { swing: 50, humanize: 0.02, accents: [1, 0.75, 0.9] },
+  house: { swing: 58, humanize: 0.02, accents: [1, 0.85, 0.7] }, // MPC shuffle
+  easy_listening: { swing: 62, humanize: 0.05, accents: [1, 0.8, 0.65] },
+  ambient: { swing: 54, humanize: 0.08, accents: [1, 0.8, 0.7] },
+  symphony: { swing: 50, humanize: 0.06, accents: [1, 0.85, 0.75] }, // Rubato, not swing
+  glitch: {
+    swing: 50,
+    humanize: 0.15,
+    timing: [0, 0.2, -0.1, 0.35, 0, -0.25, 0.15, -0.05, 0.1, 0.3, -0.2, 0, -0.1, 0.25, 0.05, -0.3], // Stumbling, loose
+    accents: [1, 0.5, 0.9, 0.6, 0.8, 1, 0.4, 0.7, 1, 0.6, 0.5, 0.9, 0.7, 0.4, 1, 0.6]
+  }
+};
+
+// Felt pulses of the meter, 8th offbeats, 16ths
+const accentMap = (meter: Meter, [pulse, offbeat, sixteenth]: number[]) =>
+  Array.from({ length: meter.stepsPerBar }, (_, step) =>
+    meter.beats.includes(step) ? pulse : step % 2 === 0 ? offbeat : sixteenth);
+
+const cycle = (values: number[], meter: Meter) =>
+  Array.from({ length: meter.stepsPerBar }, (_, step) => values[step % values.length]);
+
+export const getDefaultGroove = (style: MusicStyle, meter: Meter): GrooveTemplate => {
+  const template = GROOVE_STYLES[style] ?? GROOVE_STYLES.techno;
+  return {
+    swing: template.swing,
+    timing: template.timing ? cycle(template.timing, meter) : new Array(meter.stepsPerBar).fill(0),
+    accents: template.accents.length === 3 ? accentMap(meter, template.accents) : cycle(template.accents, meter),
+    humanize: template.humanize
+  };
+};
+
+// A groove made for another meter keeps its swing and humanize; its per-step maps are
+// rebuilt from the style's template, since steps don't carry over between groupings
+export const fitGroove = (groove: GrooveTemplate, style: MusicStyle, meter: Meter): GrooveTemplate => {
+  if (groove.timing.length === meter.stepsPerBar && groove.accents.length === meter.stepsPerBar) return cloneGroove(groove);
+  return { ...getDefaultGroove(style, meter), swing: groove.swing, humanize: groove.humanize };
+};
+
+export const cloneGroove = (groove: GrooveTemplate): GrooveTemplate => ({
+  ...groove,
+  timing: [...groove.timing],
+  accents: [...groove.accents]
+});
+
+// Seconds to move a step off the grid. Swing delays every off-16th; `rng` supplies the humanize spread.
+export const getGrooveOffset = (groove: GrooveTemplate, step: number, secondsPer16th: number, rng: Rng): number => {
+  const index = step % Math.max(1, groove.timing.length);
+  const swing = index % 2 === 1 ? (2 * groove.swing / 100 - 1) : 0;
+  const jitter = (rng() * 2 - 1) * groove.humanize;
+  return (swing + (groove.timing[index] ?? 0) + jitter) * secondsPer16th;
+};
+
+export const getGrooveAccent = (groove: GrooveTemplate, step: number): number =>
+  groove.accents[step % Math.max(1, groove.accents.length)] ?? 1;
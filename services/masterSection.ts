@@ -0,0 +1,296 @@
+// --- MASTER SECTION ---
+// A lookahead brickwall limiter and an EBU R128 / ITU-R BS.1770 loudness meter, run
+// in one AudioWorklet at the end of the master chain. Like the scheduler worker, the
+// processor ships as a source string and is loaded from a Blob URL.
+
+export interface LoudnessReading {
+  momentary: number; // LUFS, 400ms window
+  shortTerm: number; // LUFS, 3s window
+  integrated: number; // LUFS since the meter was reset (gated)
+  truePeak: number; // dBTP, highest in the last 100ms
+  truePeakMax: number; // dBTP, highest since the meter was reset
+  gainReduction: number; // dB the limiter is pulling down, 0 = idle
+  inputShortTerm: number; // LUFS at the limiter input, drives auto-gain
+}
+
+export const SILENT_READING: LoudnessReading = {
+  momentary: -Infinity,
+  shortTerm: -Infinity,
+  integrated: -Infinity,
+  truePeak: -Infinity,
+  truePeakMax: -Infinity,
+  gainReduction: 0,
+  inputShortTerm: -Infinity
+};
+
+export const LIMITER_CEILING_DB = -1; // dBTP
+export const LOUDNESS_TARGET = -14; // LUFS, where auto-gain steers every style
+export const AUTO_GAIN_RANGE: [number, number] = [-12, 12]; // dB
+
+const PROCESSOR_NAME = 'master-section';
+
+const PROCESSOR_SOURCE = `
+const TP_TAPS = 8; // Taps per phase of the 4x true-peak interpolator
+const STEP_SECONDS = 0.1; // Meter resolution; readings are posted once per step
+const SHORT_TERM_STEPS = 30;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+const toLufs = (power) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+const toDb = (gain) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+
+// Windowed-sinc phases for the three in-between samples of 4x oversampling
+const makeTruePeakPhases = () => [1, 2, 3].map(phase => {
+  const taps = new Float32Array(TP_TAPS);
+  let sum = 0;
+  for (let j = 0; j < TP_TAPS; j++) {
+    const d = j - TP_TAPS / 2 + phase / 4;
+    const sinc = d === 0 ? 1 : Math.sin(Math.PI * d) / (Math.PI * d);
+    const window = 0.5 + 0.5 * Math.cos(Math.PI * d / (TP_TAPS / 2 + 1));
+    taps[j] = sinc * window;
+    sum += taps[j];
+  }
+  for (let j = 0; j < TP_TAPS; j++) taps[j] /= sum;
+  return taps;
+});
+
+// BS.1770 K-weighting (shelf + highpass) for any sample rate
+const makeKWeighting = (fs) => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / fs);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf = [
+    (Vh + Vb * K / Q1 + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q1 + K * K) / a0,
+    2 * (K * K - 1) / a0, (1 - K / Q1 + K * K) / a0
+  ];
+  K = Math.tan(Math.PI * 38.13547087602444 / fs);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highpass = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q2 + K * K) / a0];
+  return [shelf, highpass];
+};
+
+// Per-channel K-weighted power and true peak of one signal point in the chain
+class Meter {
+  constructor(stages, phases) {
+    this.stages = stages;
+    this.phases = phases;
+    this.state = [0, 1].map(() => stages.map(() => new Float64Array(4)));
+    this.history = [0, 1].map(() => new Float32Array(TP_TAPS));
+    this.power = 0;
+    this.peak = 0;
+  }
+
+  process(channel, x) {
+    let y = x;
+    const states = this.state[channel];
+    for (let s = 0; s < this.stages.length; s++) {
+      const [b0, b1, b2, a1, a2] = this.stages[s];
+      const st = states[s];
+      const out = b0 * y + b1 * st[0] + b2 * st[1] - a1 * st[2] - a2 * st[3];
+      st[1] = st[0]; st[0] = y; st[3] = st[2]; st[2] = out;
+      y = out;
+    }
+    this.power += y * y;
+    return this.truePeak(channel, x);
+  }
+
+  truePeak(channel, x) {
+    const hist = this.history[channel];
+    hist.copyWithin(1, 0);
+    hist[0] = x;
+    let peak = Math.abs(x);
+    for (let p = 0; p < this.phases.length; p++) {
+      const taps = this.phases[p];
+      let v = 0;
+      for (let j = 0; j < TP_TAPS; j++) v += taps[j] * hist[j];
+      if (Math.abs(v) > peak) peak = Math.abs(v);
+    }
+    if (peak > this.peak) this.peak = peak;
+    return peak;
+  }
+}
+
+class MasterSectionProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.ceiling = Math.pow(10, (opts.ceilingDb ?? -1) / 20);
+    this.lookahead = Math.max(TP_TAPS, Math.round(sampleRate * (opts.lookahead ?? 0.005)));
+    this.release = Math.exp(-1 / (sampleRate * (opts.release ?? 0.1)));
+    this.metering = opts.metering !== false;
+
+    this.delay = [new Float32Array(this.lookahead), new Float32Array(this.lookahead)];
+    this.writeIndex = 0;
+    this.gain = 1;
+    this.minGain = 1;
+
+    // Sliding minimum of the required gain over the lookahead window (monotonic deque)
+    this.queueValue = new Float32Array(this.lookahead + 2);
+    this.queueTime = new Float64Array(this.lookahead + 2);
+    this.queueHead = 0;
+    this.queueSize = 0;
+    this.sampleIndex = 0;
+
+    const phases = makeTruePeakPhases();
+    const stages = makeKWeighting(sampleRate);
+    this.detector = new Meter([], phases); // Limiter sidechain: true peak only
+    this.input = new Meter(stages, phases);
+    this.output = new Meter(stages, phases);
+
+    this.stepLength = Math.round(sampleRate * STEP_SECONDS);
+    this.stepCount = 0;
+    this.reset();
+
+    this.port.onmessage = (e) => {
+      if (e.data && e.data.type === 'reset') this.reset();
+    };
+  }
+
+  reset() {
+    this.inputSteps = [];
+    this.outputSteps = [];
+    this.blocks = []; // Gated 400ms block powers for the integrated reading
+    this.peakMax = 0;
+  }
+
+  pushQueue(value) {
+    const cap = this.queueValue.length;
+    while (this.queueSize > 0) {
+      const back = (this.queueHead + this.queueSize - 1) % cap;
+      if (this.queueValue[back] < value) break;
+      this.queueSize--;
+    }
+    const slot = (this.queueHead + this.queueSize) % cap;
+    this.queueValue[slot] = value;
+    this.queueTime[slot] = this.sampleIndex;
+    this.queueSize++;
+    while (this.queueTime[this.queueHead] < this.sampleIndex - this.lookahead) {
+      this.queueHead = (this.queueHead + 1) % cap;
+      this.queueSize--;
+    }
+    return this.queueValue[this.queueHead];
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0].length;
+    const channels = Math.min(2, output.length);
+
+    for (let i = 0; i < frames; i++) {
+      // Detect: the loudest true peak across channels sets the gain this sample needs
+      let peak = 0;
+      for (let c = 0; c < channels; c++) {
+        const source = input.length ? input[Math.min(c, input.length - 1)] : null;
+        const x = source ? source[i] : 0;
+        const p = this.metering ? this.input.process(c, x) : this.detector.truePeak(c, x);
+        if (p > peak) peak = p;
+      }
+      const required = peak > this.ceiling ? this.ceiling / peak : 1;
+      const target = this.pushQueue(required);
+
+      // Instant attack (the lookahead delay lets it land before the peak), smooth release
+      this.gain = target < this.gain ? target : target + (this.gain - target) * this.release;
+      if (this.gain < this.minGain) this.minGain = this.gain;
+
+      for (let c = 0; c < channels; c++) {
+        const source = input.length ? input[Math.min(c, input.length - 1)] : null;
+        const line = this.delay[c];
+        const delayed = line[this.writeIndex];
+        line[this.writeIndex] = source ? source[i] : 0;
+        const y = delayed * this.gain;
+        output[c][i] = y;
+        if (this.metering) this.output.process(c, y);
+      }
+      this.writeIndex = (this.writeIndex + 1) % this.lookahead;
+      this.sampleIndex++;
+
+      if (this.metering && ++this.stepCount >= this.stepLength) this.postReading();
+    }
+    return true;
+  }
+
+  postReading() {
+    const pushStep = (steps, power) => {
+      steps.push(power / this.stepCount);
+      if (steps.length > SHORT_TERM_STEPS) steps.shift();
+    };
+    const mean = (steps, count) => {
+      const recent = steps.slice(-count);
+      return recent.reduce((sum, p) => sum + p, 0) / Math.max(1, recent.length);
+    };
+
+    pushStep(this.inputSteps, this.input.power);
+    pushStep(this.outputSteps, this.output.power);
+
+    const momentaryPower = mean(this.outputSteps, 4);
+    if (this.outputSteps.length >= 4 && toLufs(momentaryPower) > ABSOLUTE_GATE) this.blocks.push(momentaryPower);
+    let integrated = -Infinity;
+    if (this.blocks.length) {
+      const gate = toLufs(mean(this.blocks, this.blocks.length)) + RELATIVE_GATE;
+      const gated = this.blocks.filter(p => toLufs(p) > gate);
+      integrated = toLufs(mean(gated, gated.length));
+    }
+
+    this.peakMax = Math.max(this.peakMax, this.output.peak);
+    this.port.postMessage({
+      momentary: toLufs(momentaryPower),
+      shortTerm: toLufs(mean(this.outputSteps, SHORT_TERM_STEPS)),
+      integrated,
+      truePeak: toDb(this.output.peak),
+      truePeakMax: toDb(this.peakMax),
+      gainReduction: -toDb(this.minGain),
+      inputShortTerm: toLufs(mean(this.inputSteps, SHORT_TERM_STEPS))
+    });
+
+    this.input.power = 0;
+    this.output.power = 0;
+    this.output.peak = 0;
+    this.minGain = 1;
+    this.stepCount = 0;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', MasterSectionProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+const pendingLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export const isMasterSectionLoaded = (ctx: BaseAudioContext) => loadedContexts.has(ctx);
+
+// Registers the processor on a context once; resolves when nodes can be created
+export const loadMasterSection = (ctx: BaseAudioContext): Promise<void> => {
+  if (!ctx.audioWorklet) return Promise.reject(new Error("AudioWorklet not supported"));
+  let pending = pendingLoads.get(ctx);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    pending = ctx.audioWorklet.addModule(url)
+      .then(() => { loadedContexts.add(ctx); })
+      .finally(() => URL.revokeObjectURL(url));
+    pendingLoads.set(ctx, pending);
+  }
+  return pending;
+};
+
+// Offline renders skip the meter and only limit
+export const createMasterLimiter = (ctx: BaseAudioContext, metering: boolean): AudioWorkletNode =>
+  new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    processorOptions: { ceilingDb: LIMITER_CEILING_DB, lookahead: 0.005, release: 0.1, metering }
+  });
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// One auto-gain step per reading: eases the limiter input toward the loudness target.
+// Slow on purpose, so it levels whole tracks without flattening their sections.
+export const nextAutoGain = (currentDb: number, reading: LoudnessReading): number => {
+  if (!Number.isFinite(reading.inputShortTerm) || reading.inputShortTerm < -50) return currentDb; // Silence
+  const step = Math.max(-0.1, Math.min(0.1, (LOUDNESS_TARGET - reading.inputShortTerm) * 0.02));
+  return Math.max(AUTO_GAIN_RANGE[0], Math.min(AUTO_GAIN_RANGE[1], currentDb + step));
+};
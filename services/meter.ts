@@ -0,0 +1,39 @@
+import { TimeSignature } from '../types';
+
+// --- METERS ---
+// The scheduler always ticks in 16th notes; a meter decides how many make a bar
+// and where its pulses fall. Odd meters group their pulses (5/4 = 3+2, 7/8 = 2+2+3).
+export interface Meter {
+  numerator: number;
+  denominator: number;
+  stepsPerBar: number; // 16ths
+  beats: number[]; // Steps that start a felt pulse (kick placements, strong beats)
+  backbeats: number[]; // Snare/clap placements
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = ['4/4', '3/4', '6/8', '5/4', '7/8'];
+
+export const METERS: Record<TimeSignature, Meter> = {
+  '4/4': { numerator: 4, denominator: 4, stepsPerBar: 16, beats: [0, 4, 8, 12], backbeats: [4, 12] },
+  '3/4': { numerator: 3, denominator: 4, stepsPerBar: 12, beats: [0, 4, 8], backbeats: [4, 8] },
+  '6/8': { numerator: 6, denominator: 8, stepsPerBar: 12, beats: [0, 6], backbeats: [6] },
+  '5/4': { numerator: 5, denominator: 4, stepsPerBar: 20, beats: [0, 4, 8, 12, 16], backbeats: [4, 16] },
+  '7/8': { numerator: 7, denominator: 8, stepsPerBar: 14, beats: [0, 4, 8], backbeats: [4] }
+};
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = '4/4';
+
+export const meterFor = (timeSignature: TimeSignature | undefined): Meter =>
+  METERS[timeSignature ?? DEFAULT_TIME_SIGNATURE] ?? METERS[DEFAULT_TIME_SIGNATURE];
+
+// Quarter notes per bar, for bar lengths in seconds
+export const getQuartersPerBar = (meter: Meter) => meter.stepsPerBar / 4;
+
+// Where the scheduler is, as reported to the UI
+export interface StepPosition {
+  step: number; // Step within the bar
+  stepsPerBar: number;
+  bar: number; // Bar within the 4-bar chord cycle
+  songBar: number; // Bars since playback started
+  tick: number; // 16ths since playback started; polymeter lanes index with tick % lane length
+}
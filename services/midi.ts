@@ -0,0 +1,57 @@
+import { InstrumentVoice, NoteEvent } from './audioEngine';
+
+// --- SHARED MIDI MAPPING ---
+// Used by both .mid export and live MIDI output so they agree on notes and channels.
+
+export type MidiTrackId = 'drums' | 'bass' | 'chords' | 'lead';
+
+export const MIDI_TRACKS: MidiTrackId[] = ['drums', 'bass', 'chords', 'lead'];
+
+export const VOICE_TRACKS: Record<InstrumentVoice, MidiTrackId> = {
+  kick: 'drums',
+  timpani: 'drums',
+  snare: 'drums',
+  shaker: 'drums',
+  hat: 'drums',
+  bass: 'bass',
+  chord: 'chords',
+  lead: 'lead'
+};
+
+// 0-indexed channels (9 = GM percussion channel 10)
+export const DEFAULT_TRACK_CHANNELS: Record<MidiTrackId, number> = {
+  drums: 9,
+  bass: 0,
+  chords: 1,
+  lead: 2
+};
+
+// General MIDI programs (0-indexed) for pitched tracks
+export const TRACK_PROGRAMS: Record<MidiTrackId, number | null> = {
+  drums: null,
+  bass: 38, // Synth Bass 1
+  chords: 89, // Pad 2 (warm)
+  lead: 81 // Lead 2 (sawtooth)
+};
+
+// General MIDI percussion keys
+const GM_DRUM_NOTES: Partial<Record<InstrumentVoice, number>> = {
+  kick: 36,
+  snare: 38,
+  hat: 42,
+  shaker: 70,
+  timpani: 41 // Low floor tom
+};
+
+export const freqToMidiNote = (freq: number): number => {
+  const note = Math.round(69 + 12 * Math.log2(freq / 440));
+  return Math.max(0, Math.min(127, note));
+};
+
+export const velocityToMidi = (velocity: number): number => {
+  return Math.max(1, Math.min(127, Math.round(velocity * 127)));
+};
+
+export const eventToMidiNote = (event: NoteEvent): number => {
+  return GM_DRUM_NOTES[event.voice] ?? freqToMidiNote(event.freq ?? 440);
+};
@@ -0,0 +1,112 @@
+import { NoteEvent } from './audioEngine';
+import { DEFAULT_TRACK_CHANNELS, eventToMidiNote, MIDI_TRACKS, MidiTrackId, TRACK_PROGRAMS, velocityToMidi, VOICE_TRACKS } from './midi';
+import { Meter, METERS } from './meter';
+
+const PPQ = 480; // Ticks per quarter note
+
+interface TimedMessage {
+  tick: number;
+  bytes: number[];
+  priority: number; // Tie-break within a tick: 0 = meta/program, 1 = note-off, 2 = note-on
+}
+
+const encodeVarLen = (value: number): number[] => {
+  let v = Math.max(0, Math.floor(value));
+  const bytes = [v & 0x7f];
+  v >>= 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+};
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, data: number[]): number[] => [0xff, type, ...encodeVarLen(data.length), ...data];
+
+// Sorts by tick and converts absolute ticks to delta times.
+// Note-offs sort before note-ons so a repeated pitch releases before it retriggers.
+const buildTrackChunk = (messages: TimedMessage[]): number[] => {
+  const sorted = [...messages].sort((a, b) => a.tick - b.tick || a.priority - b.priority);
+  const data: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(msg => {
+    data.push(...encodeVarLen(msg.tick - lastTick), ...msg.bytes);
+    lastTick = msg.tick;
+  });
+  data.push(0x00, ...metaEvent(0x2f, [])); // End of track
+
+  const length = data.length;
+  return [
+    ...textBytes('MTrk'),
+    (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+    ...data
+  ];
+};
+
+// Encodes scheduler note events as a Standard MIDI File (format 1).
+// Track 0 carries tempo and meter; one track each for drums, bass, chords and lead/arp.
+export const encodeMidiFile = (events: NoteEvent[], bpm: number, title: string = 'Synesthesia', meter: Meter = METERS['4/4']): Blob => {
+  const secondsPerBeat = 60 / bpm;
+  const toTicks = (seconds: number) => Math.round((seconds / secondsPerBeat) * PPQ);
+
+  // Conductor Track
+  const microsPerQuarter = Math.round(60000000 / bpm);
+  const conductor = buildTrackChunk([
+    { tick: 0, priority: 0, bytes: metaEvent(0x03, textBytes(title)) },
+    { tick: 0, priority: 0, bytes: metaEvent(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]) },
+    // Numerator, log2(denominator), MIDI clocks per metronome click, 32nds per quarter
+    { tick: 0, priority: 0, bytes: metaEvent(0x58, [meter.numerator, Math.log2(meter.denominator), 96 / meter.denominator, 8]) }
+  ]);
+
+  const trackMessages: Record<MidiTrackId, TimedMessage[]> = { drums: [], bass: [], chords: [], lead: [] };
+
+  // A pitch that is struck again while still sounding (swells, common tones held across
+  // chords) ends at the retrigger, so the older note-off can't cut the newer note short
+  const sounding = new Map<string, { onTick: number; off: TimedMessage }>();
+  [...events].sort((a, b) => a.time - b.time).forEach(event => {
+    const track = VOICE_TRACKS[event.voice];
+    const channel = DEFAULT_TRACK_CHANNELS[track];
+    const note = eventToMidiNote(event);
+    const onTick = toTicks(event.time);
+    const offTick = Math.max(onTick + 1, toTicks(event.time + event.duration));
+
+    const key = `${channel}:${note}`;
+    const previous = sounding.get(key);
+    if (previous && previous.off.tick > onTick) {
+      if (previous.onTick === onTick) {
+        // Struck twice on one tick: keep one note, held for the longer of the two
+        previous.off.tick = Math.max(previous.off.tick, offTick);
+        return;
+      }
+      previous.off.tick = onTick;
+    }
+
+    const off: TimedMessage = { tick: offTick, priority: 1, bytes: [0x80 | channel, note, 0] };
+    trackMessages[track].push({ tick: onTick, priority: 2, bytes: [0x90 | channel, note, velocityToMidi(event.velocity)] });
+    trackMessages[track].push(off);
+    sounding.set(key, { onTick, off });
+  });
+
+  const instrumentTracks = MIDI_TRACKS.map(track => {
+    const channel = DEFAULT_TRACK_CHANNELS[track];
+    const program = TRACK_PROGRAMS[track];
+    const header: TimedMessage[] = [{ tick: 0, priority: 0, bytes: metaEvent(0x03, textBytes(track.toUpperCase())) }];
+    if (program !== null) header.push({ tick: 0, priority: 0, bytes: [0xc0 | channel, program] });
+
+    return buildTrackChunk([...header, ...trackMessages[track]]);
+  });
+
+  const numTracks = 1 + instrumentTracks.length;
+  const header = [
+    ...textBytes('MThd'),
+    0, 0, 0, 6,
+    0, 1, // Format 1
+    (numTracks >> 8) & 0xff, numTracks & 0xff,
+    (PPQ >> 8) & 0xff, PPQ & 0xff
+  ];
+
+  const bytes = new Uint8Array([...header, ...conductor, ...instrumentTracks.flat()]);
+  return new Blob([bytes], { type: 'audio/midi' });
+};
@@ -0,0 +1,200 @@
+import { HandGestures } from '../types';
+import { MidiPortInfo } from './midiOutput';
+
+export type ControlTarget = 'cutoff' | 'resonance' | 'fist' | 'pinch';
+
+export interface MidiBinding {
+  kind: 'cc' | 'note';
+  number: number;
+  channel: number | null; // null = any channel
+}
+
+export const CONTROL_TARGETS: ControlTarget[] = ['cutoff', 'resonance', 'fist', 'pinch'];
+
+const DEFAULT_BINDINGS: Record<ControlTarget, MidiBinding> = {
+  cutoff: { kind: 'cc', number: 74, channel: null }, // Brightness
+  resonance: { kind: 'cc', number: 71, channel: null }, // Harmonic content
+  fist: { kind: 'note', number: 36, channel: null }, // Pad 1: build-up
+  pinch: { kind: 'note', number: 37, channel: null } // Pad 2: wobble / hat roll
+};
+
+const STORAGE_KEY = 'synesthesia.midiInputBindings';
+
+// Controller activity counts as a hand in view until this long after the last message,
+// so an automation overdub ends once the knobs are left alone
+const IDLE_MS = 1500;
+
+// --- WEB MIDI INPUT ---
+// Turns a MIDI controller into the same HandGestures control surface the camera produces:
+// knobs drive filter cutoff (x) and resonance (y), pads/notes hold build-up (fist) and wobble (pinch).
+export class MidiInput {
+  private access: MIDIAccess | null = null;
+  private input: MIDIInput | null = null;
+  private bindings: Record<ControlTarget, MidiBinding> = MidiInput.loadBindings();
+  private learnTarget: ControlTarget | null = null;
+  private state: HandGestures = { x: 0.5, y: 0.5, isPinching: false, isFist: false, isPalmOpen: true, isVisible: false };
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private onGestures: ((gestures: HandGestures) => void) | null = null;
+  private onBindingsChange: ((bindings: Record<ControlTarget, MidiBinding>, learnTarget: ControlTarget | null) => void) | null = null;
+
+  private handleMessage = (event: MIDIMessageEvent) => {
+    if (!event.data || event.data.length < 2) return;
+    const [status, number, value = 0] = Array.from(event.data);
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+
+    let kind: MidiBinding['kind'];
+    let normalized: number;
+    if (type === 0xb0) {
+      kind = 'cc';
+      normalized = value / 127;
+    } else if (type === 0x90 || type === 0x80) {
+      kind = 'note';
+      normalized = type === 0x90 ? value / 127 : 0; // Note-on with velocity 0 is also a release
+    } else {
+      return;
+    }
+
+    if (this.learnTarget) {
+      this.bindings[this.learnTarget] = { kind, number, channel };
+      this.learnTarget = null;
+      this.saveBindings();
+      this.notifyBindings();
+      return;
+    }
+
+    let changed = false;
+    CONTROL_TARGETS.forEach(target => {
+      const binding = this.bindings[target];
+      if (binding.kind !== kind || binding.number !== number) return;
+      if (binding.channel !== null && binding.channel !== channel) return;
+      this.applyControl(target, normalized);
+      changed = true;
+    });
+
+    if (!changed) return;
+    this.state.isVisible = true;
+    this.scheduleIdle();
+    if (this.onGestures) this.onGestures({ ...this.state });
+  };
+
+  // A held pad keeps the window open; otherwise it closes IDLE_MS after the last message
+  private scheduleIdle() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.state.isFist || this.state.isPinching) {
+        this.scheduleIdle();
+        return;
+      }
+      this.endActivity();
+    }, IDLE_MS);
+  }
+
+  private endActivity() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    if (!this.state.isVisible) return;
+    this.state = { ...this.state, isPinching: false, isFist: false, isPalmOpen: true, isVisible: false };
+    if (this.onGestures) this.onGestures({ ...this.state });
+  }
+
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  private static loadBindings(): Record<ControlTarget, MidiBinding> {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (stored) return { ...DEFAULT_BINDINGS, ...JSON.parse(stored) };
+    } catch (err) {
+      console.warn("Ignoring stored MIDI bindings:", err);
+    }
+    return { ...DEFAULT_BINDINGS };
+  }
+
+  public async init(): Promise<MidiPortInfo[]> {
+    if (!this.access) {
+      this.access = await navigator.requestMIDIAccess();
+    }
+    return this.listInputs();
+  }
+
+  public listInputs(): MidiPortInfo[] {
+    if (!this.access) return [];
+    return Array.from(this.access.inputs.values()).map(port => ({
+      id: port.id,
+      name: port.name || port.id
+    }));
+  }
+
+  public selectInput(id: string | null) {
+    if (this.input) this.input.removeEventListener('midimessage', this.handleMessage);
+    this.endActivity();
+    this.input = (id && this.access?.inputs.get(id)) || null;
+    if (this.input) this.input.addEventListener('midimessage', this.handleMessage);
+  }
+
+  public getSelectedInputId(): string | null {
+    return this.input?.id ?? null;
+  }
+
+  public setOnGestures(callback: ((gestures: HandGestures) => void) | null) {
+    this.onGestures = callback;
+  }
+
+  public setOnBindingsChange(callback: ((bindings: Record<ControlTarget, MidiBinding>, learnTarget: ControlTarget | null) => void) | null) {
+    this.onBindingsChange = callback;
+  }
+
+  public getBindings(): Record<ControlTarget, MidiBinding> {
+    return { ...this.bindings };
+  }
+
+  public getLearnTarget(): ControlTarget | null {
+    return this.learnTarget;
+  }
+
+  // The next incoming CC or note is assigned to the target
+  public startLearn(target: ControlTarget) {
+    this.learnTarget = target;
+    this.notifyBindings();
+  }
+
+  public cancelLearn() {
+    this.learnTarget = null;
+    this.notifyBindings();
+  }
+
+  public resetBindings() {
+    this.bindings = { ...DEFAULT_BINDINGS };
+    this.learnTarget = null;
+    this.saveBindings();
+    this.notifyBindings();
+  }
+
+  private applyControl(target: ControlTarget, value: number) {
+    // Notes act as momentary pads (held while down), CCs as switches at the midpoint
+    const isOn = this.bindings[target].kind === 'note' ? value > 0 : value >= 0.5;
+    switch (target) {
+      case 'cutoff': this.state.x = value; break;
+      case 'resonance': this.state.y = value; break;
+      case 'fist': this.state.isFist = isOn; break;
+      case 'pinch': this.state.isPinching = isOn; break;
+    }
+    this.state.isPalmOpen = !this.state.isFist && !this.state.isPinching;
+  }
+
+  private saveBindings() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (err) {
+      console.warn("Could not store MIDI bindings:", err);
+    }
+  }
+
+  private notifyBindings() {
+    if (this.onBindingsChange) this.onBindingsChange(this.getBindings(), this.learnTarget);
+  }
+}
@@ -0,0 +1,119 @@
+import { AudioEngine, ClockEvent, NoteEvent } from './audioEngine';
+import { DEFAULT_TRACK_CHANNELS, eventToMidiNote, MIDI_TRACKS, MidiTrackId, velocityToMidi, VOICE_TRACKS } from './midi';
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+// --- WEB MIDI OUTPUT ---
+// Mirrors the engine's note stream to an external port and optionally sends
+// MIDI clock (24 PPQN) plus start/stop so hardware can follow the tempo.
+export class MidiOutput {
+  private access: MIDIAccess | null = null;
+  private output: MIDIOutput | null = null;
+  private channels: Record<MidiTrackId, number> = { ...DEFAULT_TRACK_CHANNELS };
+  private isClockEnabled: boolean = true;
+  private detachFns: (() => void)[] = [];
+  // When each channel:note's last note-off is due. A pitch repeated while still sounding
+  // (e.g. a swell's common tone) gets an extra note-off at the repeat, so the device
+  // re-articulates it instead of ignoring or stacking the second note-on. The older note's
+  // own note-off is already queued and may still end the repeat early.
+  private soundingUntil: Map<string, number> = new Map();
+
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  public async init(): Promise<MidiPortInfo[]> {
+    if (!this.access) {
+      this.access = await navigator.requestMIDIAccess();
+    }
+    return this.listOutputs();
+  }
+
+  public listOutputs(): MidiPortInfo[] {
+    if (!this.access) return [];
+    return Array.from(this.access.outputs.values()).map(port => ({
+      id: port.id,
+      name: port.name || port.id
+    }));
+  }
+
+  public selectOutput(id: string | null) {
+    this.allNotesOff();
+    this.output = (id && this.access?.outputs.get(id)) || null;
+  }
+
+  public getSelectedOutputId(): string | null {
+    return this.output?.id ?? null;
+  }
+
+  public getChannels(): Record<MidiTrackId, number> {
+    return { ...this.channels };
+  }
+
+  public setChannel(track: MidiTrackId, channel: number) {
+    this.allNotesOff();
+    this.channels[track] = Math.max(0, Math.min(15, Math.floor(channel)));
+  }
+
+  public setClockEnabled(enabled: boolean) {
+    this.isClockEnabled = enabled;
+  }
+
+  public getClockEnabled(): boolean {
+    return this.isClockEnabled;
+  }
+
+  public attach(engine: AudioEngine) {
+    this.detach();
+    this.detachFns = [
+      engine.addNoteListener(event => this.sendNote(event, engine.toPerformanceTime(event.time))),
+      engine.addClockListener(event => this.sendClock(event, engine.toPerformanceTime(event.time)))
+    ];
+  }
+
+  public detach() {
+    this.detachFns.forEach(fn => fn());
+    this.detachFns = [];
+  }
+
+  private sendNote(event: NoteEvent, timestamp: number) {
+    if (!this.output) return;
+    const channel = this.channels[VOICE_TRACKS[event.voice]];
+    const note = eventToMidiNote(event);
+    const key = `${channel}:${note}`;
+    const offAt = timestamp + event.duration * 1000;
+
+    const previousOff = this.soundingUntil.get(key);
+    if (previousOff !== undefined && previousOff > timestamp) {
+      this.output.send([0x80 | channel, note, 0], timestamp);
+    }
+    this.output.send([0x90 | channel, note, velocityToMidi(event.velocity)], timestamp);
+    // Sent right away with its timestamp, so the port times it even while the tab is throttled
+    this.output.send([0x80 | channel, note, 0], offAt);
+    this.soundingUntil.set(key, Math.max(offAt, previousOff ?? 0));
+  }
+
+  private sendClock(event: ClockEvent, timestamp: number) {
+    if (!this.output) return;
+    if (event.type === 'tick') {
+      if (this.isClockEnabled) this.output.send([0xf8], timestamp);
+    } else if (event.type === 'start') {
+      if (this.isClockEnabled) this.output.send([0xfa], timestamp);
+    } else {
+      this.allNotesOff();
+      if (this.isClockEnabled) this.output.send([0xfc], timestamp);
+    }
+  }
+
+  private allNotesOff() {
+    if (!this.output) return;
+    // Drop queued note-offs/clock where supported, then silence every used channel
+    (this.output as MIDIOutput & { clear?: () => void }).clear?.();
+    this.soundingUntil.clear();
+    const used = new Set(MIDI_TRACKS.map(track => this.channels[track]));
+    used.forEach(channel => this.output!.send([0xb0 | channel, 123, 0]));
+  }
+}
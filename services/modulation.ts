@@ -0,0 +1,60 @@
+import { MusicStyle } from '../types';
+import { Rng } from './random';
+
+// Key of one form slot, applied on top of the song's scale and base note
+export interface KeyChange {
+  semitones: number; // Transposition of the tonic
+  degreeShift: number; // Scale-degree rotation; ±2 pivots to the relative major/minor
+}
+
+export const HOME_KEY: KeyChange = { semitones: 0, degreeShift: 0 };
+
+// Folds a transposition into -5..+6 so keys never drift far from the original register
+const wrapSemitones = (semitones: number) => ((semitones + 5) % 12 + 12) % 12 - 5;
+
+// --- MODULATION PLANNER ---
+// One KeyChange per form slot. Repetitive club styles hold the key; the rest move at B sections
+// and may lift the last section of the form.
+export const planModulation = (
+  style: MusicStyle,
+  form: number[],
+  scale: number[],
+  complexity: number,
+  rng: Rng
+): KeyChange[] => {
+  // Third degree nearer a minor than a major third; scales too short to have one pivot as major
+  const isMinor = scale.length >= 3 && Math.abs(scale[2] - 3) < Math.abs(scale[2] - 4);
+  const relativePivot: KeyChange = { semitones: 0, degreeShift: isMinor ? 2 : -2 };
+  const lift = (semitones: number): KeyChange => ({ semitones, degreeShift: 0 });
+  const isFinalLift = (slot: number) => slot === form.length - 1 && form[slot] === 0;
+
+  switch (style) {
+    case 'symphony': {
+      // Each B section travels another fifth round the circle; A always comes home
+      let fifths = 0;
+      return form.map(section => {
+        if (section === 0) return HOME_KEY;
+        fifths++;
+        return lift(wrapSemitones(fifths * 7));
+      });
+    }
+    case 'easy_listening': {
+      const finalLift = lift(rng() < 0.5 ? 1 : 2);
+      return form.map((section, slot) => {
+        if (section === 1) return relativePivot;
+        return isFinalLift(slot) ? finalLift : HOME_KEY;
+      });
+    }
+    case 'ambient': {
+      const pivot = rng() < 0.5 ? relativePivot : lift(rng() < 0.5 ? 2 : -2);
+      return form.map(section => section === 1 ? pivot : HOME_KEY);
+    }
+    case 'house': {
+      const finalLift = complexity > 0.3 ? lift(2) : HOME_KEY;
+      return form.map((_, slot) => isFinalLift(slot) ? finalLift : HOME_KEY);
+    }
+    default:
+      // Techno, industrial and glitch stay hypnotic
+      return form.map(() => HOME_KEY);
+  }
+};
@@ -0,0 +1,77 @@
+import { Rng } from './random';
+
+// --- PRE-RENDERED ONE-SHOTS ---
+// Percussion is rendered once into AudioBuffers and replayed through a single
+// BufferSource per hit, instead of building oscillator graphs or filling fresh
+// noise buffers on every note.
+
+// Seconds of shared white noise; hits start at a random offset so repeats don't phase
+export const NOISE_SECONDS = 1.0;
+
+export const renderNoise = (ctx: BaseAudioContext, rng: Rng): AudioBuffer => {
+  const length = Math.floor(ctx.sampleRate * NOISE_SECONDS);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    data[i] = rng() * 2 - 1;
+  }
+  return buffer;
+};
+
+// Sine with an exponential pitch drop and exponential amplitude decay (to -40dB),
+// matching the oscillator-based kick and timpani envelopes
+export const renderPitchDrop = (
+  ctx: BaseAudioContext,
+  startFreq: number,
+  endFreq: number,
+  sweepTime: number,
+  length: number
+): AudioBuffer => {
+  const rate = ctx.sampleRate;
+  const samples = Math.floor(rate * length);
+  const buffer = ctx.createBuffer(1, samples, rate);
+  const data = buffer.getChannelData(0);
+
+  let phase = 0;
+  for (let i = 0; i < samples; i++) {
+    const t = i / rate;
+    const freq = t < sweepTime ? startFreq * Math.pow(endFreq / startFreq, t / sweepTime) : endFreq;
+    const amp = Math.pow(0.01, t / length);
+    data[i] = Math.sin(phase) * amp;
+    phase += (2 * Math.PI * freq) / rate;
+  }
+  return buffer;
+};
+
+// Karplus-Strong plucked string: one period of filtered noise circulating through a
+// damped, fractionally tuned delay line. Rendered per pitch, because a feedback loop in
+// the audio graph cannot be shorter than one 128-sample render quantum.
+export const renderPluck = (
+  ctx: BaseAudioContext,
+  freq: number,
+  length: number,
+  brightness: number, // 0 = mellow thumb, 1 = bright pick
+  rng: Rng
+): AudioBuffer => {
+  const rate = ctx.sampleRate;
+  const samples = Math.floor(rate * length);
+  const buffer = ctx.createBuffer(1, samples, rate);
+  const data = buffer.getChannelData(0);
+
+  const period = rate / freq - 0.5; // The two-point average adds half a sample
+  const whole = Math.floor(period);
+  const frac = period - whole;
+  const loss = Math.pow(0.001, 1 / (length * freq)); // -60dB by the end of the buffer
+
+  let excitation = 0;
+  for (let i = 0; i <= whole && i < samples; i++) {
+    excitation += (rng() * 2 - 1 - excitation) * (0.2 + brightness * 0.8);
+    data[i] = excitation;
+  }
+
+  const read = (i: number) => (1 - frac) * data[i] + (i > 0 ? frac * data[i - 1] : 0);
+  for (let i = whole + 1; i < samples; i++) {
+    data[i] = loss * 0.5 * (read(i - whole) + read(i - whole - 1));
+  }
+  return buffer;
+};
@@ -0,0 +1,140 @@
+import { PatternModel } from './audioEngine';
+import { Meter } from './meter';
+import { Rng } from './random';
+
+// One bar of bass and melody, in the same scale-degree terms as PatternModel, except that
+// bass is absolute: the written 0 (= follow the chord root) is already resolved to the
+// bar's chord, so an embellishment that lands on degree 0 stays degree 0
+export interface EvolvedLanes {
+  bass: (number | null)[];
+  melody: (number | null)[];
+}
+
+// Degrees are counted in the active scale, so an octave is scaleLength degrees: 7 in the
+// diatonic modes, 5 in pentatonic and slendro, anything in an imported Scala tuning
+const MELODY_OCTAVES = 2; // Melody range above degree 0
+const CHORD_TONES = [0, 2, 4]; // Root, third, fifth above the chord root, as voiceChord stacks them
+
+// How far a section may drift from the written pattern
+export const getVariationAmount = (complexity: number) => 0.1 + complexity * 0.5;
+
+const clampMelody = (degree: number, scaleLength: number) =>
+  Math.max(0, Math.min(MELODY_OCTAVES * scaleLength - 1, degree));
+
+// Every chord tone of the bar's chord inside the melody range
+const chordTonesInRange = (chordRoot: number, scaleLength: number): number[] => {
+  const range = MELODY_OCTAVES * scaleLength;
+  const tones: number[] = [];
+  for (let octave = -1; octave <= MELODY_OCTAVES; octave++) {
+    CHORD_TONES.forEach(offset => {
+      const degree = chordRoot + offset + octave * scaleLength;
+      if (degree >= 0 && degree < range) tones.push(degree);
+    });
+  }
+  return [...new Set(tones)].sort((a, b) => a - b);
+};
+
+const nearestChordTone = (degree: number, tones: number[], exclude: number | null = null): number => {
+  let best = tones[0];
+  tones.forEach(tone => {
+    if (tone === exclude) return;
+    if (best === exclude || Math.abs(tone - degree) < Math.abs(best - degree)) best = tone;
+  });
+  return best;
+};
+
+// --- MELODY ---
+// Mirror around the bar's first note, then pull the strong beats back onto the chord
+const invertMelody = (
+  melody: (number | null)[],
+  tones: number[],
+  scaleLength: number,
+  isStrongBeat: (step: number) => boolean
+): (number | null)[] => {
+  const pivot = melody.find(note => note !== null);
+  if (pivot === undefined || pivot === null) return melody;
+  return melody.map((note, step) => {
+    if (note === null) return null;
+    const inverted = clampMelody(2 * pivot - note, scaleLength);
+    return isStrongBeat(step) ? nearestChordTone(inverted, tones) : inverted;
+  });
+};
+
+const evolveMelody = (
+  current: (number | null)[],
+  base: (number | null)[],
+  chordRoot: number,
+  scaleLength: number,
+  amount: number,
+  isStrongBeat: (step: number) => boolean,
+  rng: Rng
+) => {
+  const tones = chordTonesInRange(chordRoot, scaleLength);
+  let melody = current.map((note, step) => {
+    if (note !== base[step] && rng() < 0.25) return base[step]; // Drift home now and then
+
+    if (note === null) {
+      // Embellish: a chord tone in an empty step
+      return rng() < amount * 0.25 ? tones[Math.floor(rng() * tones.length)] : null;
+    }
+    if (!isStrongBeat(step) && rng() < amount * 0.3) return null; // Thin out
+    if (rng() < amount * 0.3) return nearestChordTone(note, tones, note); // Mutate to a neighbouring chord tone
+    return note;
+  });
+
+  if (rng() < amount * 0.2) melody = invertMelody(melody, tones, scaleLength, isStrongBeat);
+  return melody;
+};
+
+// --- BASS ---
+// Written value 0 follows the chord root; embellishments add its fifth or octave
+const resolveBass = (lane: (number | null)[], chordRoot: number) =>
+  lane.map(note => note === 0 ? chordRoot : note);
+
+// The fifth sits 4/7 of the way up a diatonic octave; the same share of any other scale
+// lands on its nearest degree (3 of 5 in pentatonic and slendro, 7 of 12, 13 of 22)
+const fifthAbove = (scaleLength: number) => Math.round(scaleLength * 4 / 7);
+
+const evolveBass = (
+  current: (number | null)[],
+  written: (number | null)[],
+  chordRoot: number,
+  scaleLength: number,
+  amount: number,
+  rng: Rng
+) => {
+  const base = resolveBass(written, chordRoot);
+  return current.map((note, step) => {
+    if (note !== base[step] && rng() < 0.25) return base[step];
+    if (step === 0) return note; // Keep the downbeat anchored
+
+    if (note === null) {
+      if (step % 2 !== 0 || rng() >= amount * 0.2) return null;
+      return chordRoot + (rng() < 0.5 ? fifthAbove(scaleLength) : scaleLength);
+    }
+    if (rng() < amount * 0.25) return null;
+    return note;
+  });
+};
+
+// Evolves a 4-bar section from its previous variation (or the written pattern the first time).
+// Each bar is varied against its own chord so new notes stay inside the scale and harmony;
+// the meter's felt pulses are the strong beats that keep their chord tones.
+export const evolveSection = (
+  previous: EvolvedLanes[] | null,
+  pattern: PatternModel,
+  chords: number[],
+  scaleLength: number,
+  amount: number,
+  meter: Meter,
+  rng: Rng
+): EvolvedLanes[] => {
+  const isStrongBeat = (step: number) => meter.beats.includes(step % meter.stepsPerBar);
+  return chords.map((chordRoot, bar) => {
+    const source = previous?.[bar] ?? { bass: resolveBass(pattern.bass, chordRoot), melody: pattern.melody };
+    return {
+      bass: evolveBass(source.bass, pattern.bass, chordRoot, scaleLength, amount, rng),
+      melody: evolveMelody(source.melody, pattern.melody, chordRoot, scaleLength, amount, isStrongBeat, rng)
+    };
+  });
+};
@@ -0,0 +1,21 @@
+// Deterministic PRNG so a composition can be recreated from its seed.
+export type Rng = () => number;
+
+// Mulberry32: small, fast, good enough for musical decisions
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derives an independent stream from a seed (e.g. one for composition, one for performance)
+export const deriveSeed = (seed: number, stream: number): number => {
+  return Math.imul((seed ^ Math.imul(stream, 0x9e3779b9)) >>> 0, 0x85ebca6b) >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
@@ -0,0 +1,128 @@
+import { MusicStyle } from '../types';
+
+export type KitSlot = 'kick' | 'snare' | 'hat' | 'perc' | 'timpani';
+
+export const KIT_SLOTS: KitSlot[] = ['kick', 'snare', 'hat', 'perc', 'timpani'];
+
+interface StoredSample {
+  key: string; // `${style}:${slot}`
+  style: MusicStyle;
+  slot: KitSlot;
+  name: string;
+  data: ArrayBuffer; // Original file bytes, decoded again on every load
+}
+
+const DB_NAME = 'synesthesia.sampleKits';
+const DB_VERSION = 1;
+const STORE_NAME = 'samples';
+const DECODE_RATE = 44100;
+const SUPPORTED_FILE = /\.(wav|wave|ogg|oga)$/i;
+
+const sampleKey = (style: MusicStyle, slot: KitSlot) => `${style}:${slot}`;
+
+// Wraps an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// --- SAMPLE KITS ---
+// User-supplied drum samples, one kit per MusicStyle. Files are kept in IndexedDB
+// (too large for localStorage) and decoded once into AudioBuffers the engine can
+// play from any context, live or offline.
+export class SampleKitLibrary {
+  private db: IDBDatabase | null = null;
+  private buffers: Map<string, AudioBuffer> = new Map();
+  private names: Map<string, string> = new Map();
+  private decoder: OfflineAudioContext | null = null;
+
+  private onChange: (() => void) | null = null;
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public static isSupportedFile(file: File): boolean {
+    return SUPPORTED_FILE.test(file.name) || /^audio\/(wav|wave|x-wav|ogg)$/.test(file.type);
+  }
+
+  // Opens the store and decodes every saved sample
+  public async init(): Promise<void> {
+    if (this.db || !SampleKitLibrary.isSupported()) return;
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    this.db = await requestToPromise(request);
+
+    const stored = await requestToPromise(
+      this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+    ) as StoredSample[];
+
+    for (const sample of stored) {
+      try {
+        this.buffers.set(sample.key, await this.decode(sample.data));
+        this.names.set(sample.key, sample.name);
+      } catch (err) {
+        console.error(`Failed to decode stored sample ${sample.key}:`, err);
+      }
+    }
+    this.notify();
+  }
+
+  public setOnChange(callback: (() => void) | null) {
+    this.onChange = callback;
+  }
+
+  public getSample(style: MusicStyle, slot: KitSlot): AudioBuffer | null {
+    return this.buffers.get(sampleKey(style, slot)) ?? null;
+  }
+
+  public getSampleName(style: MusicStyle, slot: KitSlot): string | null {
+    return this.names.get(sampleKey(style, slot)) ?? null;
+  }
+
+  // Decodes a dropped file into a slot and persists it; throws if the file isn't playable audio
+  public async loadSample(style: MusicStyle, slot: KitSlot, file: File): Promise<void> {
+    if (!SampleKitLibrary.isSupportedFile(file)) {
+      throw new Error(`Unsupported sample file: ${file.name}`);
+    }
+    const data = await file.arrayBuffer();
+    const buffer = await this.decode(data);
+    const key = sampleKey(style, slot);
+
+    this.buffers.set(key, buffer);
+    this.names.set(key, file.name);
+    this.notify();
+
+    if (this.db) {
+      const record: StoredSample = { key, style, slot, name: file.name, data };
+      await requestToPromise(this.db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record));
+    }
+  }
+
+  public async removeSample(style: MusicStyle, slot: KitSlot): Promise<void> {
+    const key = sampleKey(style, slot);
+    this.buffers.delete(key);
+    this.names.delete(key);
+    this.notify();
+
+    if (this.db) {
+      await requestToPromise(this.db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+    }
+  }
+
+  private decode(data: ArrayBuffer): Promise<AudioBuffer> {
+    if (!this.decoder) {
+      this.decoder = new OfflineAudioContext(2, 1, DECODE_RATE);
+    }
+    // decodeAudioData detaches its input, so hand it a copy and keep the original for storage
+    return this.decoder.decodeAudioData(data.slice(0));
+  }
+
+  private notify() {
+    if (this.onChange) this.onChange();
+  }
+}
@@ -0,0 +1,337 @@
+import { MusicStyle, ScaleId, SonicParameters } from '../types';
+import { BusSettings, CompositionSnapshot, MIXER_BUSES, MixerBusId } from './audioEngine';
+import { HOME_KEY } from './modulation';
+import { getDefaultGroove, GrooveTemplate, HUMANIZE_RANGE, SWING_RANGE, TIMING_RANGE } from './groove';
+import { meterFor, TIME_SIGNATURES } from './meter';
+import { DEFAULT_SIDECHAIN, SIDECHAIN_RANGES, SidechainSettings } from './sidechain';
+import { DEFAULT_STEREO, StereoSettings } from './stereo';
+import { AutomationPoint } from './automation';
+import { LIBRARY_SCALES, Tuning } from './tuning';
+import { SYNTH_TYPES } from './synthEngines';
+import { clampBpm } from './tempo';
+
+// --- SCENE DOCUMENT ---
+// A saved performance setup: the analysis result, the generated song and every user edit.
+// Bump SCENE_VERSION when the shape changes and teach migrateScene() to upgrade older files.
+
+export const SCENE_FORMAT = 'synesthesia-scene';
+export const SCENE_VERSION = 8;
+
+export interface SceneImage {
+  thumbnail: string; // Small JPEG data URL
+  hash: string; // SHA-256 of the uploaded image's data URL
+}
+
+export interface SceneDocument {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  params: SonicParameters;
+  composition: CompositionSnapshot;
+  mixer: Record<MixerBusId, BusSettings>;
+  groove: GrooveTemplate;
+  sidechain: SidechainSettings;
+  stereo: StereoSettings;
+  automation: AutomationPoint[]; // Recorded gesture take
+  tuning: Tuning | null; // Imported Scala tuning, if any
+  arrangementEnabled: boolean; // false = loop the form forever
+  image: SceneImage | null;
+  colors: string[];
+}
+
+export const createScene = (fields: Omit<SceneDocument, 'format' | 'version' | 'createdAt'>): SceneDocument => ({
+  format: SCENE_FORMAT,
+  version: SCENE_VERSION,
+  createdAt: new Date().toISOString(),
+  ...fields
+});
+
+export const serializeScene = (scene: SceneDocument): Blob => {
+  return new Blob([JSON.stringify(scene, null, 2)], { type: 'application/json' });
+};
+
+// --- VALIDATION ---
+// Scene files come from disk, so every field is checked before it reaches the engine:
+// structure the engine indexes into must be usable, and numeric settings are clamped.
+type Json = Record<string, unknown>;
+
+const invalid = (path: string) => new Error(`Scene file has an invalid ${path}`);
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRecord = (value: unknown, path: string): Json => {
+  if (!isRecord(value)) throw invalid(path);
+  return value;
+};
+
+const readNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(path);
+  return value;
+};
+
+const UNIT_RANGE: [number, number] = [0, 1];
+
+const readClamped = (value: unknown, path: string, [min, max]: [number, number]): number =>
+  Math.max(min, Math.min(max, readNumber(value, path)));
+
+const readBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw invalid(path);
+  return value;
+};
+
+const readString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw invalid(path);
+  return value;
+};
+
+const readOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T => {
+  if (!options.includes(value as T)) throw invalid(path);
+  return value as T;
+};
+
+const readArray = <T>(value: unknown, path: string, readItem: (item: unknown, path: string) => T): T[] => {
+  if (!Array.isArray(value)) throw invalid(path);
+  return value.map((item, i) => readItem(item, `${path}[${i}]`));
+};
+
+const readNonEmpty = <T>(value: unknown, path: string, readItem: (item: unknown, path: string) => T): T[] => {
+  const items = readArray(value, path, readItem);
+  if (items.length === 0) throw invalid(path);
+  return items;
+};
+
+// An integer in [0, count), e.g. a form slot's section
+const readIndex = (count: number) => (value: unknown, path: string): number => {
+  const index = readNumber(value, path);
+  if (!Number.isInteger(index) || index < 0 || index >= count) throw invalid(path);
+  return index;
+};
+
+const readNullable = <T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | null =>
+  value === null ? null : read(value, path);
+
+const readStep = (value: unknown, path: string): number | null => readNullable(value, path, readNumber);
+
+const STYLES = Object.keys(DEFAULT_SIDECHAIN) as MusicStyle[]; // Every style has sidechain defaults
+const SCALES: ScaleId[] = [...LIBRARY_SCALES, 'custom'];
+
+const readParams = (value: unknown): SonicParameters => {
+  const params = readRecord(value, 'params');
+  return {
+    bpm: clampBpm(readNumber(params.bpm, 'params.bpm')),
+    complexity: readClamped(params.complexity, 'params.complexity', UNIT_RANGE),
+    darkness: readClamped(params.darkness, 'params.darkness', UNIT_RANGE),
+    space: readClamped(params.space, 'params.space', UNIT_RANGE),
+    synthType: readOneOf(params.synthType, SYNTH_TYPES, 'params.synthType'),
+    baseNoteFrequency: readNumber(params.baseNoteFrequency, 'params.baseNoteFrequency'),
+    style: readOneOf(params.style, STYLES, 'params.style'),
+    timeSignature: params.timeSignature === undefined ? undefined : readOneOf(params.timeSignature, TIME_SIGNATURES, 'params.timeSignature'),
+    scale: params.scale === undefined ? undefined : readOneOf(params.scale, SCALES, 'params.scale'),
+    seed: params.seed === undefined ? undefined : readNumber(params.seed, 'params.seed')
+  };
+};
+
+const readComposition = (value: unknown): CompositionSnapshot => {
+  const composition = readRecord(value, 'composition');
+  const pattern = readRecord(composition.pattern, 'composition.pattern');
+  const period = composition.period === undefined ? undefined : readNumber(composition.period, 'composition.period');
+  if (period !== undefined && period <= 0) throw invalid('composition.period');
+
+  const sections = readNonEmpty(composition.sections, 'composition.sections', (item, path) => readNonEmpty(item, path, readNumber));
+  const form = readNonEmpty(composition.form, 'composition.form', readIndex(sections.length));
+  const keys = readArray(composition.keys, 'composition.keys', (item, path) => {
+    const key = readRecord(item, path);
+    return { semitones: readNumber(key.semitones, `${path}.semitones`), degreeShift: readNumber(key.degreeShift, `${path}.degreeShift`) };
+  });
+  if (keys.length !== form.length) throw invalid('composition.keys');
+
+  return {
+    scale: readNonEmpty(composition.scale, 'composition.scale', readNumber),
+    period,
+    form,
+    sections,
+    keys,
+    pattern: {
+      kick: readNonEmpty(pattern.kick, 'composition.pattern.kick', readBoolean),
+      snare: readNonEmpty(pattern.snare, 'composition.pattern.snare', readBoolean),
+      hat: readNonEmpty(pattern.hat, 'composition.pattern.hat', readBoolean),
+      bass: readNonEmpty(pattern.bass, 'composition.pattern.bass', readStep),
+      melody: readNonEmpty(pattern.melody, 'composition.pattern.melody', readStep)
+    }
+  };
+};
+
+const readMixer = (value: unknown): Record<MixerBusId, BusSettings> => {
+  const mixer = readRecord(value, 'mixer');
+  const result: Partial<Record<MixerBusId, BusSettings>> = {};
+  MIXER_BUSES.forEach(id => {
+    if (mixer[id] === undefined) return; // Missing buses keep the engine's defaults
+    const bus = readRecord(mixer[id], `mixer.${id}`);
+    result[id] = {
+      volume: readNumber(bus.volume, `mixer.${id}.volume`),
+      pan: readNumber(bus.pan, `mixer.${id}.pan`),
+      mute: readBoolean(bus.mute, `mixer.${id}.mute`),
+      solo: readBoolean(bus.solo, `mixer.${id}.solo`),
+      delaySend: readNumber(bus.delaySend, `mixer.${id}.delaySend`),
+      reverbSend: readNumber(bus.reverbSend, `mixer.${id}.reverbSend`)
+    };
+  });
+  return result as Record<MixerBusId, BusSettings>;
+};
+
+const readGroove = (value: unknown): GrooveTemplate => {
+  const groove = readRecord(value, 'groove');
+  return {
+    swing: readClamped(groove.swing, 'groove.swing', SWING_RANGE),
+    timing: readArray(groove.timing, 'groove.timing', (item, path) => readClamped(item, path, TIMING_RANGE)),
+    accents: readArray(groove.accents, 'groove.accents', (item, path) => readClamped(item, path, UNIT_RANGE)),
+    humanize: readClamped(groove.humanize, 'groove.humanize', HUMANIZE_RANGE)
+  };
+};
+
+const readSidechain = (value: unknown): SidechainSettings => {
+  const sidechain = readRecord(value, 'sidechain');
+  return {
+    depth: readClamped(sidechain.depth, 'sidechain.depth', SIDECHAIN_RANGES.depth),
+    attack: readClamped(sidechain.attack, 'sidechain.attack', SIDECHAIN_RANGES.attack),
+    release: readClamped(sidechain.release, 'sidechain.release', SIDECHAIN_RANGES.release)
+  };
+};
+
+const readStereo = (value: unknown): StereoSettings => {
+  const stereo = readRecord(value, 'stereo');
+  return { width: readNumber(stereo.width, 'stereo.width'), hrtf: readBoolean(stereo.hrtf, 'stereo.hrtf') };
+};
+
+const readAutomationPoint = (value: unknown, path: string): AutomationPoint => {
+  const point = readRecord(value, path);
+  const gestures = readRecord(point.gestures, `${path}.gestures`);
+  return {
+    tick: readNumber(point.tick, `${path}.tick`),
+    gestures: {
+      x: readNumber(gestures.x, `${path}.gestures.x`),
+      y: readNumber(gestures.y, `${path}.gestures.y`),
+      isPinching: readBoolean(gestures.isPinching, `${path}.gestures.isPinching`),
+      isFist: readBoolean(gestures.isFist, `${path}.gestures.isFist`),
+      isPalmOpen: readBoolean(gestures.isPalmOpen, `${path}.gestures.isPalmOpen`),
+      isVisible: readBoolean(gestures.isVisible, `${path}.gestures.isVisible`)
+    }
+  };
+};
+
+const readTuning = (value: unknown, path: string): Tuning => {
+  const tuning = readRecord(value, path);
+  const steps = readArray(tuning.steps, `${path}.steps`, readNumber);
+  const period = readNumber(tuning.period, `${path}.period`);
+  if (steps.length === 0 || period <= 0) throw invalid(path);
+  return { name: readString(tuning.name, `${path}.name`), steps, period };
+};
+
+const readImage = (value: unknown, path: string): SceneImage => {
+  const image = readRecord(value, path);
+  return { thumbnail: readString(image.thumbnail, `${path}.thumbnail`), hash: readString(image.hash, `${path}.hash`) };
+};
+
+// Upgrades a parsed document of any older version to the current shape
+const migrateScene = (doc: Json, version: number): Json => {
+  const params = readParams(doc.params);
+  // Version 2: per-slot key changes. Older songs never modulated.
+  if (version < 2) {
+    const composition = readRecord(doc.composition, 'composition');
+    const form = readArray(composition.form, 'composition.form', readNumber);
+    doc = { ...doc, composition: { ...composition, keys: form.map(() => ({ ...HOME_KEY })) } };
+  }
+  // Version 3: editable groove. Older scenes get their style's template.
+  if (version < 3) {
+    doc = { ...doc, groove: getDefaultGroove(params.style, meterFor(params.timeSignature)) };
+  }
+  // Version 4: kick sidechain. Older scenes get their style's defaults.
+  if (version < 4) {
+    doc = { ...doc, sidechain: { ...DEFAULT_SIDECHAIN[params.style] } };
+  }
+  // Version 5: stereo imaging. Older scenes get the default pad width, no HRTF.
+  if (version < 5) {
+    doc = { ...doc, stereo: { ...DEFAULT_STEREO } };
+  }
+  // Version 6: gesture automation. Older scenes have no take.
+  if (version < 6) {
+    doc = { ...doc, automation: [] };
+  }
+  // Version 7: Scala tunings. Older scenes never imported one.
+  if (version < 7) {
+    doc = { ...doc, tuning: null };
+  }
+  // Version 8: arrangement toggle. Older scenes played the full arrangement.
+  if (version < 8) {
+    doc = { ...doc, arrangementEnabled: true };
+  }
+  return doc;
+};
+
+export const parseScene = (text: string): SceneDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Scene file is not valid JSON");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== SCENE_FORMAT) {
+    throw new Error("Not a Synesthesia scene file");
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || version > SCENE_VERSION) {
+    throw new Error(`Unsupported scene version: ${String(version)}`);
+  }
+  if (!isRecord(parsed.params) || !isRecord(parsed.composition) || !isRecord(parsed.composition.pattern)) {
+    throw new Error("Scene file is missing parameters or composition");
+  }
+
+  const doc = migrateScene(parsed, version);
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    createdAt: typeof doc.createdAt === 'string' ? doc.createdAt : new Date().toISOString(),
+    params: readParams(doc.params),
+    composition: readComposition(doc.composition),
+    mixer: readMixer(doc.mixer),
+    groove: readGroove(doc.groove),
+    sidechain: readSidechain(doc.sidechain),
+    stereo: readStereo(doc.stereo),
+    automation: readArray(doc.automation, 'automation', readAutomationPoint),
+    tuning: readNullable(doc.tuning, 'tuning', readTuning),
+    arrangementEnabled: readBoolean(doc.arrangementEnabled, 'arrangementEnabled'),
+    image: readNullable(doc.image ?? null, 'image', readImage),
+    colors: readArray(doc.colors ?? [], 'colors', readString)
+  };
+};
+
+// --- IMAGE HELPERS ---
+
+export const createThumbnail = (dataUrl: string, maxSize: number = 256): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas not available"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => reject(new Error("Could not load image for thumbnail"));
+    img.src = dataUrl;
+  });
+};
+
+export const hashDataUrl = async (dataUrl: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(dataUrl);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,69 @@
+// --- SCHEDULER CLOCK ---
+// Drives the lookahead scheduler from a Web Worker timer. Worker timers are not
+// throttled in background tabs and keep ticking while the main thread is busy
+// rendering, so audio scheduling no longer depends on window.setTimeout.
+
+const WORKER_SOURCE = `
+let timer = null;
+self.onmessage = (e) => {
+  if (e.data.type === 'start') {
+    clearInterval(timer);
+    timer = setInterval(() => self.postMessage('tick'), e.data.interval);
+  } else if (e.data.type === 'stop') {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+`;
+
+export class SchedulerClock {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private fallbackTimer: number | undefined;
+  private onTick: () => void;
+  private interval: number;
+
+  constructor(onTick: () => void, interval: number) {
+    this.onTick = onTick;
+    this.interval = interval;
+  }
+
+  public start() {
+    this.stop();
+    const worker = this.getWorker();
+    if (worker) {
+      worker.postMessage({ type: 'start', interval: this.interval });
+    } else {
+      // No worker support (or blocked by CSP): fall back to a main-thread timer
+      this.fallbackTimer = window.setInterval(this.onTick, this.interval);
+    }
+  }
+
+  public stop() {
+    this.worker?.postMessage({ type: 'stop' });
+    window.clearInterval(this.fallbackTimer);
+    this.fallbackTimer = undefined;
+  }
+
+  public dispose() {
+    this.stop();
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+    this.workerUrl = null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+    try {
+      this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+      this.worker = new Worker(this.workerUrl);
+      this.worker.onmessage = () => this.onTick();
+      return this.worker;
+    } catch (err) {
+      console.warn("Scheduler worker unavailable, using main-thread timer:", err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { MusicStyle } from '../types';
+
+// --- SIDECHAIN DUCKING ---
+// Every scheduled kick dips the ducked buses and lets them swell back, the classic
+// "pumping" pad and bass. Driven from the kick schedule, so it is sample-accurate
+// and identical in offline renders.
+export interface SidechainSettings {
+  depth: number; // 0 = off, 1 = full silence at the bottom of the dip
+  attack: number; // Seconds to reach the dip
+  release: number; // Seconds to recover
+}
+
+export const SIDECHAIN_RANGES: Record<keyof SidechainSettings, [number, number]> = {
+  depth: [0, 1],
+  attack: [0.001, 0.05],
+  release: [0.05, 0.6]
+};
+
+export const DEFAULT_SIDECHAIN: Record<MusicStyle, SidechainSettings> = {
+  house: { depth: 0.6, attack: 0.005, release: 0.2 },
+  techno: { depth: 0.7, attack: 0.005, release: 0.16 },
+  industrial: { depth: 0.5, attack: 0.003, release: 0.12 },
+  glitch: { depth: 0.3, attack: 0.002, release: 0.1 },
+  easy_listening: { depth: 0.15, attack: 0.01, release: 0.25 },
+  ambient: { depth: 0, attack: 0.01, release: 0.3 },
+  symphony: { depth: 0, attack: 0.01, release: 0.3 }
+};
+
+// Schedules one duck on a gain param: down to 1 - depth, then back to unity
+export const scheduleDuck = (param: AudioParam, time: number, depth: number, { attack, release }: SidechainSettings) => {
+  if (depth <= 0) return;
+  param.setTargetAtTime(1 - depth, time, attack / 3);
+  param.setTargetAtTime(1, time + attack, release / 3);
+};
@@ -0,0 +1,97 @@
+import { HandGestures } from '../types';
+
+// --- STEREO IMAGING ---
+// Voices are placed by the scheduler (hats alternate, arps fan out, pads spread across
+// their chord tones, bass and kick stay centred). The `space` parameter widens the field
+// and a visible hand's x position slides it from side to side.
+export interface StereoSettings {
+  width: number; // Pad chord spread, 0 = mono, 1 = hard left to hard right
+  hrtf: boolean; // Binaural placement through HRTF panners instead of equal-power pans
+}
+
+export const DEFAULT_STEREO: StereoSettings = { width: 0.6, hrtf: false };
+
+export const HAT_PANS = [-0.5, 0.5]; // Alternate per 8th
+export const ARP_PANS = [-0.7, -0.25, 0.25, 0.7]; // Root, 3rd, 5th, 7th
+
+const clampPan = (pan: number) => Math.max(-1, Math.min(1, pan));
+
+// Spreads evenly from left to right across a chord's notes
+export const getChordPan = (index: number, count: number, width: number) =>
+  count > 1 ? (index / (count - 1) * 2 - 1) * width : 0;
+
+// Final pan for a voice's base position: scaled by space, offset by the hand
+export const placeInField = (pan: number, space: number, gestures: HandGestures) => {
+  const spread = 0.4 + space * 0.6;
+  const center = gestures.isVisible ? (gestures.x - 0.5) * 1.2 : 0;
+  return clampPan(pan * spread + center);
+};
+
+// Per-voice panner. HRTF mode puts the voice on a unit circle in front of the listener,
+// pan -1..1 mapping to -90..90 degrees of azimuth.
+export const createVoicePanner = (ctx: BaseAudioContext, pan: number, hrtf: boolean): AudioNode => {
+  if (!hrtf) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    return panner;
+  }
+
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.refDistance = 1;
+  const azimuth = pan * Math.PI / 2;
+  panner.positionX.value = Math.sin(azimuth);
+  panner.positionY.value = 0;
+  panner.positionZ.value = -Math.cos(azimuth);
+  return panner;
+};
+
+// --- PING-PONG DELAY ---
+// Sends are summed to mono, then the echoes bounce left -> right -> left, each repeat
+// scaled by the feedback gain.
+export class PingPongDelay {
+  public readonly input: GainNode;
+  public readonly output: ChannelMergerNode;
+  private left: DelayNode;
+  private right: DelayNode;
+  private feedbackLeft: GainNode; // Left echo into the right line
+  private feedbackRight: GainNode; // Right echo back into the left line
+
+  constructor(ctx: BaseAudioContext, time: number, feedback: number) {
+    this.input = ctx.createGain();
+    this.input.channelCount = 1;
+    this.input.channelCountMode = 'explicit';
+
+    this.left = ctx.createDelay(2.0); // Headroom for slow tempos
+    this.right = ctx.createDelay(2.0);
+    this.left.delayTime.value = time;
+    this.right.delayTime.value = time;
+
+    this.feedbackLeft = ctx.createGain();
+    this.feedbackRight = ctx.createGain();
+    this.feedbackLeft.gain.value = feedback;
+    this.feedbackRight.gain.value = feedback;
+
+    this.output = ctx.createChannelMerger(2);
+
+    this.input.connect(this.left);
+    this.left.connect(this.feedbackLeft);
+    this.feedbackLeft.connect(this.right);
+    this.right.connect(this.feedbackRight);
+    this.feedbackRight.connect(this.left);
+
+    this.left.connect(this.output, 0, 0);
+    this.right.connect(this.output, 0, 1);
+  }
+
+  public setTime(time: number, at: number) {
+    this.left.delayTime.setTargetAtTime(time, at, 0.1);
+    this.right.delayTime.setTargetAtTime(time, at, 0.1);
+  }
+
+  public setFeedback(feedback: number, at: number) {
+    this.feedbackLeft.gain.setTargetAtTime(feedback, at, 0.5);
+    this.feedbackRight.gain.setTargetAtTime(feedback, at, 0.5);
+  }
+}
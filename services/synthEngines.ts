@@ -0,0 +1,133 @@
+import { OscillatorWaveform, SynthType } from '../types';
+
+export const SYNTH_TYPES: SynthType[] = ['sawtooth', 'square', 'sine', 'triangle', 'fm', 'wavetable', 'plucked'];
+
+// --- VOICE ENGINES ---
+// Sound sources for the pitched synth voices. playSynth() wraps each one in the same
+// envelope, vibrato and bus routing, so only the source differs between engines.
+export interface SynthSource {
+  output: AudioNode;
+  frequency: AudioParam | null; // Pitch, for vibrato; null when the source is pre-rendered
+  source: AudioScheduledSourceNode; // Fires onended when the voice is done
+  stop: (at: number) => void;
+}
+
+// --- FM ---
+// Sine modulators feed the carrier's frequency in parallel (2-4 operators in total).
+// Index is peak deviation relative to the modulator frequency.
+export interface FmOperator {
+  ratio: number; // Modulator frequency relative to the carrier
+  index: number;
+  decay: number | null; // Seconds for the index to fall to 10%; null = held
+}
+
+export type FmPatchId = 'epiano' | 'bell' | 'pad';
+
+export const FM_PATCHES: Record<FmPatchId, FmOperator[]> = {
+  epiano: [{ ratio: 1, index: 1.8, decay: 0.9 }, { ratio: 14, index: 0.5, decay: 0.06 }], // Body + tine
+  bell: [{ ratio: 3.5, index: 3, decay: 1.2 }, { ratio: 1.41, index: 1.2, decay: 2 }], // Inharmonic partials
+  pad: [{ ratio: 2, index: 0.6, decay: null }, { ratio: 1.003, index: 0.3, decay: null }] // Slow beating
+};
+
+export const createOscillatorSource = (
+  ctx: BaseAudioContext,
+  time: number,
+  freq: number,
+  waveform: OscillatorWaveform | PeriodicWave
+): SynthSource => {
+  const osc = ctx.createOscillator();
+  if (waveform instanceof PeriodicWave) {
+    osc.setPeriodicWave(waveform);
+  } else {
+    osc.type = waveform;
+  }
+  osc.frequency.setValueAtTime(freq, time);
+  osc.start(time);
+  return { output: osc, frequency: osc.frequency, source: osc, stop: (at) => osc.stop(at) };
+};
+
+export const createFmSource = (ctx: BaseAudioContext, time: number, freq: number, operators: FmOperator[]): SynthSource => {
+  const carrier = ctx.createOscillator();
+  carrier.frequency.setValueAtTime(freq, time);
+
+  const modulators = operators.map(({ ratio, index, decay }) => {
+    const modulator = ctx.createOscillator();
+    const depth = ctx.createGain();
+    const deviation = index * freq * ratio;
+    modulator.frequency.setValueAtTime(freq * ratio, time);
+    depth.gain.setValueAtTime(deviation, time);
+    if (decay !== null) depth.gain.setTargetAtTime(deviation * 0.1, time, decay / 2.3);
+    modulator.connect(depth);
+    depth.connect(carrier.frequency);
+    modulator.start(time);
+    return modulator;
+  });
+  carrier.start(time);
+
+  return {
+    output: carrier,
+    frequency: carrier.frequency,
+    source: carrier,
+    stop: (at) => {
+      carrier.stop(at);
+      modulators.forEach(modulator => modulator.stop(at));
+    }
+  };
+};
+
+export const createBufferSource = (ctx: BaseAudioContext, time: number, buffer: AudioBuffer): SynthSource => {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.start(time);
+  return { output: source, frequency: null, source, stop: (at) => source.stop(at) };
+};
+
+// --- WAVETABLE ---
+// A single-cycle table built from the image palette. Harmonic n takes colour
+// (n - 1) % palette size: its luminance sets the level and its hue the phase. The
+// palette's overall brightness tilts the spectrum, so bright images sound brighter.
+const WAVETABLE_HARMONICS = 32;
+
+interface PaletteColor {
+  luminance: number; // 0 to 1
+  hue: number; // 0 to 1
+}
+
+const parseColor = (hex: string): PaletteColor | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  const r = ((value >> 16) & 0xff) / 255;
+  const g = ((value >> 8) & 0xff) / 255;
+  const b = (value & 0xff) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let hue = 0;
+  if (max !== min) {
+    const d = max - min;
+    if (max === r) hue = ((g - b) / d + 6) % 6;
+    else if (max === g) hue = (b - r) / d + 2;
+    else hue = (r - g) / d + 4;
+    hue /= 6;
+  }
+  return { luminance: 0.2126 * r + 0.7152 * g + 0.0722 * b, hue };
+};
+
+export const buildWavetable = (ctx: BaseAudioContext, colors: string[]): PeriodicWave => {
+  const palette = colors.map(parseColor).filter((color): color is PaletteColor => color !== null);
+  const brightness = palette.length ? palette.reduce((sum, color) => sum + color.luminance, 0) / palette.length : 0.5;
+  const tilt = 2 - brightness * 1.2; // 1/n^0.8 (bright) to 1/n^2 (dark)
+
+  const real = new Float32Array(WAVETABLE_HARMONICS + 1);
+  const imag = new Float32Array(WAVETABLE_HARMONICS + 1);
+  for (let n = 1; n <= WAVETABLE_HARMONICS; n++) {
+    const color = palette.length ? palette[(n - 1) % palette.length] : null;
+    const level = color ? 0.2 + 0.8 * color.luminance : 1;
+    const phase = color ? color.hue * 2 * Math.PI : 0;
+    const amplitude = level / Math.pow(n, tilt);
+    real[n] = amplitude * Math.sin(phase);
+    imag[n] = amplitude * Math.cos(phase);
+  }
+  return ctx.createPeriodicWave(real, imag);
+};
@@ -0,0 +1,28 @@
+import { clampBpm } from './tempo';
+
+// --- TAP TEMPO ---
+// Averages the intervals between recent taps. A pause longer than RESET_MS starts a new
+// measurement, so tapping along to a different track does not mix in the old tempo.
+const MAX_TAPS = 8;
+const RESET_MS = 2000;
+
+export class TapTempo {
+  private taps: number[] = [];
+
+  // Returns the tapped tempo once there are at least two taps
+  public tap(now: number = performance.now()): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && now - last > RESET_MS) this.taps = [];
+
+    this.taps.push(now);
+    if (this.taps.length > MAX_TAPS) this.taps.shift();
+    if (this.taps.length < 2) return null;
+
+    const averageMs = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+    return clampBpm(Math.round(60000 / averageMs));
+  }
+
+  public reset() {
+    this.taps = [];
+  }
+}
@@ -0,0 +1,6 @@
+// --- TEMPO ---
+// The BPM range the parameter panel offers. It is wide enough for slow ambient analyses
+// and fast tapped tempos; anything outside it is clamped when applied.
+export const BPM_RANGE: [number, number] = [40, 200];
+
+export const clampBpm = (bpm: number): number => Math.max(BPM_RANGE[0], Math.min(BPM_RANGE[1], bpm));
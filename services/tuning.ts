@@ -0,0 +1,141 @@
+import { MusicStyle, ScaleId } from '../types';
+
+// --- TUNINGS ---
+// A scale is a list of pitches above the tonic plus the interval it repeats at, all in
+// (possibly fractional) semitones. getFreq() walks scale degrees through it, so the
+// same chords and melodies play in 12-TET modes, maqamat, gamelan or just intonation.
+export interface Tuning {
+  name: string;
+  steps: number[]; // Ascending semitones from the tonic; steps[0] is always 0
+  period: number; // Semitones before the pattern repeats, 12 for octave-based scales
+}
+
+export type LibraryScaleId = Exclude<ScaleId, 'custom'>;
+
+const cents = (name: string, values: number[]): Tuning => ({ name, steps: values.map(c => c / 100), period: 12 });
+const ratios = (name: string, values: number[]): Tuning => ({ name, steps: values.map(r => 12 * Math.log2(r)), period: 12 });
+
+export const SCALE_LIBRARY: Record<LibraryScaleId, Tuning> = {
+  minor: { name: 'Natural minor', steps: [0, 2, 3, 5, 7, 8, 10], period: 12 },
+  major: { name: 'Major', steps: [0, 2, 4, 5, 7, 9, 11], period: 12 },
+  phrygian: { name: 'Phrygian', steps: [0, 1, 3, 5, 7, 8, 10], period: 12 }, // Dark, Techno
+  dorian: { name: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10], period: 12 }, // Groovy, House
+  pentatonic: { name: 'Minor pentatonic', steps: [0, 3, 5, 7, 10], period: 12 },
+  harmonic_minor: { name: 'Harmonic minor', steps: [0, 2, 3, 5, 7, 8, 11], period: 12 }, // Classical, Dramatic
+  lydian: { name: 'Lydian', steps: [0, 2, 4, 6, 7, 9, 11], period: 12 }, // Dreamy
+  maqam_rast: cents('Maqam Rast', [0, 200, 350, 500, 700, 900, 1050]), // Neutral 3rd and 7th
+  maqam_bayati: cents('Maqam Bayati', [0, 150, 300, 500, 700, 800, 1000]),
+  maqam_hijaz: cents('Maqam Hijaz', [0, 100, 400, 500, 700, 800, 1000]),
+  pelog: cents('Gamelan pelog', [0, 120, 270, 540, 670, 785, 950]), // One measured Javanese set; every gamelan differs
+  slendro: cents('Gamelan slendro', [0, 240, 480, 720, 960]), // Near-equal five-step
+  just_major: ratios('Just major', [1, 9 / 8, 5 / 4, 4 / 3, 3 / 2, 5 / 3, 15 / 8]),
+  just_minor: ratios('Just minor', [1, 9 / 8, 6 / 5, 4 / 3, 3 / 2, 8 / 5, 9 / 5])
+};
+
+export const LIBRARY_SCALES = Object.keys(SCALE_LIBRARY) as LibraryScaleId[];
+
+// Used when neither the analysis nor the user picked a scale
+export const DEFAULT_SCALES: Record<MusicStyle, LibraryScaleId> = {
+  techno: 'phrygian',
+  industrial: 'minor',
+  house: 'dorian',
+  easy_listening: 'major',
+  ambient: 'lydian',
+  symphony: 'harmonic_minor',
+  glitch: 'minor'
+};
+
+// --- SCALA FILES ---
+// .scl: description, note count, then one pitch per line (cents if it has a '.', else a
+// ratio like 3/2 or 2). The last pitch is the period. Lines starting with '!' are comments.
+// .kbm: a keyboard mapping; only its key pattern and formal octave are used here, since
+// the song's root always comes from the analysed base note.
+
+const dataLines = (text: string): string[] =>
+  text.split(/\r?\n/).filter(line => !line.startsWith('!'));
+
+const parsePitch = (line: string): number => {
+  const token = line.trim().split(/\s+/)[0] ?? '';
+  if (token.includes('.')) {
+    const value = Number(token);
+    if (Number.isFinite(value)) return value / 100;
+  } else {
+    const [num, den = '1'] = token.split('/');
+    const ratio = Number(num) / Number(den);
+    if (Number.isFinite(ratio) && ratio > 0) return 12 * Math.log2(ratio);
+  }
+  throw new Error(`Invalid Scala pitch: "${line.trim()}"`);
+};
+
+export const parseScala = (text: string, fallbackName: string = 'Custom'): Tuning => {
+  const lines = dataLines(text);
+  if (lines.length < 2) throw new Error("Scala file is missing its header");
+
+  const description = lines[0].trim();
+  const count = parseInt(lines[1], 10);
+  if (!Number.isInteger(count) || count < 1) throw new Error("Scala file has no notes");
+
+  const pitches = lines.slice(2, 2 + count).map(parsePitch);
+  if (pitches.length < count) throw new Error(`Scala file lists ${pitches.length} of ${count} notes`);
+
+  const period = pitches[count - 1];
+  if (period <= 0) throw new Error("Scala period must be above the tonic");
+  const steps = [0, ...pitches.slice(0, -1)].filter(step => step >= 0 && step < period).sort((a, b) => a - b);
+
+  return { name: description || fallbackName, steps: [...new Set(steps)], period };
+};
+
+export interface KeyboardMapping {
+  mapping: (number | null)[]; // Scale degree per key of the pattern; null = unmapped ('x')
+  octaveDegree: number; // Degree the pattern repeats at; 0 = the scale's own period
+}
+
+export const parseKeyboardMapping = (text: string): KeyboardMapping => {
+  const lines = dataLines(text).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length < 7) throw new Error("Keyboard mapping is missing its header");
+
+  const size = parseInt(lines[0], 10);
+  const octaveDegree = parseInt(lines[6], 10);
+  if (!Number.isInteger(size) || size < 0 || !Number.isInteger(octaveDegree)) {
+    throw new Error("Keyboard mapping header is invalid");
+  }
+
+  const mapping = lines.slice(7, 7 + size).map(line => {
+    const token = line.split(/\s+/)[0];
+    return token === 'x' ? null : parseInt(token, 10);
+  });
+  if (mapping.some(degree => degree !== null && !Number.isInteger(degree))) {
+    throw new Error("Keyboard mapping has an invalid key");
+  }
+  return { mapping: [...mapping, ...new Array(size - mapping.length).fill(null)], octaveDegree };
+};
+
+// Narrows a tuning to the degrees a keyboard mapping plays, e.g. a mode out of a
+// 22-note scale. The first mapped degree becomes the tonic.
+export const applyKeyboardMapping = (tuning: Tuning, keyboard: KeyboardMapping): Tuning => {
+  const degrees = keyboard.mapping.filter((degree): degree is number => degree !== null);
+  if (degrees.length === 0) return tuning;
+
+  const count = tuning.steps.length;
+  const pitchOf = (degree: number) =>
+    tuning.steps[((degree % count) + count) % count] + Math.floor(degree / count) * tuning.period;
+
+  const period = keyboard.octaveDegree > 0 ? pitchOf(keyboard.octaveDegree) : tuning.period;
+  const tonic = pitchOf(degrees[0]);
+  const steps = degrees
+    .map(degree => pitchOf(degree) - tonic)
+    .map(pitch => ((pitch % period) + period) % period)
+    .sort((a, b) => a - b);
+
+  return { name: tuning.name, steps: [...new Set(steps)], period };
+};
+
+// One .scl, optionally with a .kbm, as picked or dropped by the user
+export const readTuningFiles = async (files: File[]): Promise<Tuning> => {
+  const scl = files.find(file => file.name.toLowerCase().endsWith('.scl'));
+  const kbm = files.find(file => file.name.toLowerCase().endsWith('.kbm'));
+  if (!scl) throw new Error("Choose a .scl file (and optionally a .kbm)");
+
+  const tuning = parseScala(await scl.text(), scl.name.replace(/\.scl$/i, ''));
+  return kbm ? applyKeyboardMapping(tuning, parseKeyboardMapping(await kbm.text())) : tuning;
+};
@@ -0,0 +1,63 @@
+// --- VOICE LIMITER ---
+// Caps how many scheduled voices may overlap. When a new voice would exceed the
+// cap, the oldest overlapping voices are released early (voice stealing), so the
+// node count stays bounded no matter how dense the patterns get.
+
+export interface LimitedVoice {
+  start: number; // Context time
+  end: number; // Context time the voice finishes on its own
+  release: (time: number) => void; // Fades the voice out quickly from `time`
+}
+
+export const STEAL_FADE = 0.015; // s
+
+export class VoiceLimiter {
+  private voices: LimitedVoice[] = [];
+  private maxVoices: number;
+
+  constructor(maxVoices: number) {
+    this.maxVoices = maxVoices;
+  }
+
+  public setMaxVoices(maxVoices: number) {
+    this.maxVoices = Math.max(1, Math.floor(maxVoices));
+  }
+
+  public getActiveCount(now: number): number {
+    return this.voices.filter(v => v.end > now).length;
+  }
+
+  // Voices are added in scheduling order, so anything that ends before this one starts
+  // can no longer overlap a new voice. Pruning against the context clock would keep
+  // everything during an offline render, where currentTime stays at 0.
+  public add(voice: LimitedVoice) {
+    this.voices = this.voices.filter(v => v.end > voice.start);
+
+    const overlapping = this.voices
+      .filter(v => v.end > voice.start)
+      .sort((a, b) => a.start - b.start);
+
+    const excess = overlapping.length + 1 - this.maxVoices;
+    for (let i = 0; i < excess; i++) {
+      const victim = overlapping[i];
+      victim.release(voice.start);
+      victim.end = voice.start;
+    }
+
+    this.voices.push(voice);
+  }
+
+  public clear() {
+    this.voices = [];
+  }
+}
+
+// Quick fade used when a voice is stolen
+export const fadeOutParam = (param: AudioParam, time: number) => {
+  if ('cancelAndHoldAtTime' in param) {
+    param.cancelAndHoldAtTime(time);
+  } else {
+    (param as AudioParam).cancelScheduledValues(time);
+  }
+  param.setTargetAtTime(0, time, STEAL_FADE / 3);
+};
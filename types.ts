@@ -1,13 +1,29 @@
 export type MusicStyle = 'techno' | 'ambient' | 'industrial' | 'house' | 'glitch' | 'symphony' | 'easy_listening';
 
+export type TimeSignature = '4/4' | '3/4' | '6/8' | '5/4' | '7/8';
+
+// 12-TET modes, maqamat, gamelan and just-intonation scales, or an imported Scala tuning
+export type ScaleId =
+  | 'minor' | 'major' | 'phrygian' | 'dorian' | 'pentatonic' | 'harmonic_minor' | 'lydian'
+  | 'maqam_rast' | 'maqam_bayati' | 'maqam_hijaz' | 'pelog' | 'slendro' | 'just_major' | 'just_minor'
+  | 'custom';
+
+export type OscillatorWaveform = 'sawtooth' | 'square' | 'sine' | 'triangle';
+
+// A basic waveform, or one of the richer voice engines: FM, an image-derived wavetable, Karplus-Strong plucks
+export type SynthType = OscillatorWaveform | 'fm' | 'wavetable' | 'plucked';
+
 export interface SonicParameters {
   bpm: number;
   complexity: number; // 0.0 to 1.0
   darkness: number; // 0.0 to 1.0 (Controls distortion/bass)
   space: number; // 0.0 to 1.0 (Reverb/Delay mix)
-  synthType: 'sawtooth' | 'square' | 'sine' | 'triangle';
+  synthType: SynthType;
   baseNoteFrequency: number;
   style: MusicStyle;
+  timeSignature?: TimeSignature; // Defaults to 4/4
+  scale?: ScaleId; // Defaults to the style's scale
+  seed?: number; // Drives every random choice in the engine; same seed = same song
 }
 
 export interface HandGestures {